@@ -0,0 +1,59 @@
+import maplibregl from 'maplibre-gl';
+import { ThreeLayer, ThreeTileset } from 'maplibre-three-world';
+
+
+// Place a tileset in `./tileset/` and serve the repository root,
+// e.g. with `npx serve .`, then open `/examples/3d-tiles/`.
+const TILESET_URL = './tileset/tileset.json';
+
+
+// Initial Map
+const map = new maplibregl.Map({
+  container: 'map',
+  style: 'https://tiles.openfreemap.org/styles/bright',
+  zoom: 16,
+  center: [0, 0],
+  pitch: 60,
+  maxPitch: 85,
+  canvasContextAttributes: {
+    antialias: true,
+  },
+});
+
+
+// Create Layer
+const layer = new ThreeLayer({
+  id: '3d_tiles',
+});
+
+
+// Create Tileset
+const tileset = new ThreeTileset({
+  url: TILESET_URL,
+  maximumScreenSpaceError: 16,
+});
+
+
+// Log Failed Tiles
+layer.on('error', ({ error }) => console.warn(error));
+
+
+// Map on Load
+await new Promise(resolve => map.once('style.load', resolve));
+
+
+// Add Layer
+map.addLayer(layer);
+
+
+// Add Tileset
+tileset.addTo(layer);
+
+
+// Fly to the Tileset
+await tileset.ready;
+map.jumpTo({ center: tileset.getCenter() });
+
+
+// Log Tile Stats
+map.on('idle', () => console.log(tileset.getStats()));
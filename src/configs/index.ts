@@ -42,3 +42,13 @@ export const MAX_VALID_LATITUDE = 85.051129;
  * Ratio of tile size to world size.
  */
 export const WORLD_SIZE_RATIO = TILE_SIZE / WORLD_SIZE;
+
+/**
+ * Semi-major axis of the WGS84 ellipsoid in meters, used by 3D Tiles.
+ */
+export const WGS84_RADIUS = 6378137;
+
+/**
+ * Squared first eccentricity of the WGS84 ellipsoid.
+ */
+export const WGS84_ECCENTRICITY_SQUARED = 6.69437999014e-3;
@@ -1,6 +1,9 @@
-import type { Group } from 'three';
+import type { Group, Raycaster, Vector2, Ray } from 'three';
+import type { ProjectionData } from 'maplibre-gl';
+import type { MercatorExtent } from './SpatialIndex';
 import {
   DEG_TO_RAD,
+  EARTH_RADIUS,
   WORLD_SIZE,
   MAX_VALID_LATITUDE,
   WORLD_SIZE_RATIO,
@@ -10,13 +13,38 @@ import {
   clamp,
   mercatorXFromLng,
   mercatorYFromLat,
+  lngLatToGlobeMatrix,
+  lngLatToMercatorMatrix,
+  lngFromMercatorX,
+  latFromMercatorY,
+  projectedUnitsPerMeter,
+  lngLatToVector3,
 } from '../utils';
-import { Matrix4, Vector3, PerspectiveCamera } from 'three';
+import { LngLatAlt } from '../geometries/LngLatAlt';
+import { Matrix4, Vector3, Vector4, PerspectiveCamera, Frustum, Sphere } from 'three';
 import { Map } from 'maplibre-gl';
 
 
 const tempProjectionMatrix = new Matrix4();
 const tempCameraTranslateMatrix = new Matrix4();
+const tempMercatorModelMatrix = new Matrix4();
+const tempViewProjectionMatrix = new Matrix4();
+const tempInverseMatrix = new Matrix4();
+const tempCorner = new Vector3();
+const tempPosition = new Vector3();
+const tempRayOrigin = new Vector3();
+const tempRayDirection = new Vector3();
+const tempGlobeModelMatrix = new Matrix4();
+const tempSphere = new Sphere();
+const tempCameraPosition = new Vector4();
+
+
+/**
+ * Map projection the camera adapter is currently synchronized with.
+ * - 'mercator': flat Web Mercator, driven by the adapter's own camera math.
+ * - 'globe': MapLibre's globe, driven by the projection data of each frame.
+ */
+export type CameraProjection = 'mercator' | 'globe';
 
 
 /**
@@ -30,6 +58,11 @@ export class CameraAdapter {
    * @type {PerspectiveCamera}
    */
   camera: PerspectiveCamera;
+  /**
+   * View frustum of the camera in scene space, updated with the camera matrices.
+   * @type {Frustum}
+   */
+  frustum: Frustum = new Frustum();
   /**
    * Reference to the MapLibre map instance used to read transform values
    * such as pitch, bearing, zoom, and viewport size.
@@ -51,6 +84,30 @@ export class CameraAdapter {
    * @private
    */
   _worldTranslateToGLOrigin: Matrix4;
+  /**
+   * Projection the camera is currently synchronized with.
+   * @type {CameraProjection}
+   */
+  projection: CameraProjection = 'mercator';
+  /**
+   * Globe-to-mercator transition factor, from 0 (mercator) to 1 (globe).
+   * @type {number}
+   * @private
+   */
+  _projectionTransition: number = 0;
+  /**
+   * Mercator view-projection matrix used while MapLibre blends the globe
+   * into the flat map.
+   * @type {Matrix4}
+   * @private
+   */
+  _fallbackMatrix: Matrix4 = new Matrix4();
+  /**
+   * Plane equation separating the visible side of the unit-sphere globe.
+   * @type {[number, number, number, number]}
+   * @private
+   */
+  _clippingPlane: [number, number, number, number] = [0, 0, 0, 0];
 
 
   /**
@@ -99,6 +156,8 @@ export class CameraAdapter {
    * @returns {void}
    */
   updateCameraMatrices(updateProjection: boolean): void {
+    if (this.projection === 'globe') return;
+
     const { transform } = this._map;
 
     if (updateProjection) {
@@ -107,6 +166,278 @@ export class CameraAdapter {
 
     this._updateCameraWorldMatrix(transform);
     this._updateWorldMatrix(transform);
+    this._updateFrustum();
+  }
+
+
+  /**
+   * Synchronizes the camera with MapLibre's per-frame projection data.
+   * Switches to globe mode while the globe is rendered (including the
+   * globe-to-mercator transition) and back to the mercator camera otherwise.
+   * @param {ProjectionData} projectionData - Projection data of the current frame.
+   * @returns {boolean} Whether the active projection changed.
+   */
+  updateProjectionData(projectionData: ProjectionData): boolean {
+    const prevProjection = this.projection;
+    const transition = projectionData.projectionTransition || 0;
+
+    this.projection = transition > 0 ? 'globe' : 'mercator';
+    this._projectionTransition = transition;
+
+    if (this.projection === 'globe') {
+      this._clippingPlane = projectionData.clippingPlane;
+      this._fallbackMatrix.fromArray(projectionData.fallbackMatrix);
+      this.camera.projectionMatrix.fromArray(projectionData.mainMatrix);
+      this.camera.projectionMatrixInverse.copy(this.camera.projectionMatrix).invert();
+      this.camera.matrixWorld.identity();
+      this._world.matrix.identity();
+      this._updateFrustum();
+    } else if (prevProjection === 'globe') {
+      this.updateCameraMatrices(true);
+    }
+
+    return prevProjection !== this.projection;
+  }
+
+
+  /**
+   * Computes the model matrix of an east-north-up frame (in meters) anchored
+   * at the given coordinates while the globe is active. During the
+   * globe-to-mercator transition the globe and mercator placements are
+   * blended the same way MapLibre blends its own layers.
+   * @param {number} lng - Longitude in degrees.
+   * @param {number} lat - Latitude in degrees.
+   * @param {number} alt - Altitude in meters.
+   * @param {Matrix4} [target] - Optional matrix to write the result into.
+   * @returns {Matrix4} Model matrix relative to the globe camera.
+   */
+  getGlobeModelMatrix(lng: number, lat: number, alt: number, target: Matrix4 = new Matrix4()): Matrix4 {
+    lngLatToGlobeMatrix(lng, lat, alt, target);
+
+    const transition = this._projectionTransition;
+    if (transition >= 1) {
+      return target;
+    }
+
+    // Clip position = lerp(fallback * mercator, main * globe), expressed
+    // relative to the main matrix which is used as the camera projection.
+    lngLatToMercatorMatrix(lng, lat, alt, tempMercatorModelMatrix)
+      .premultiply(this._fallbackMatrix)
+      .premultiply(this.camera.projectionMatrixInverse);
+
+    const globeElements = target.elements;
+    const mercatorElements = tempMercatorModelMatrix.elements;
+    for (let i = 0; i < 16; i++) {
+      globeElements[i] = mercatorElements[i] + (globeElements[i] - mercatorElements[i]) * transition;
+    }
+
+    return target;
+  }
+
+
+  /**
+   * Checks whether a coordinate lies on the side of the globe facing the camera.
+   * Always true while the map is rendered in mercator.
+   * @param {number} lng - Longitude in degrees.
+   * @param {number} lat - Latitude in degrees.
+   * @param {number} alt - Altitude in meters.
+   * @returns {boolean} Whether the coordinate is on the visible hemisphere.
+   */
+  isOnVisibleHemisphere(lng: number, lat: number, alt: number): boolean {
+    if (this.projection !== 'globe') {
+      return true;
+    }
+
+    const lngRad = lng * DEG_TO_RAD;
+    const latRad = lat * DEG_TO_RAD;
+    const radius = 1 + (alt || 0) / EARTH_RADIUS;
+    const cosLat = Math.cos(latRad) * radius;
+
+    const [a, b, c, d] = this._clippingPlane;
+    return a * Math.sin(lngRad) * cosLat + b * Math.sin(latRad) * radius + c * Math.cos(lngRad) * cosLat + d >= 0;
+  }
+
+
+  /**
+   * Returns the ground footprint of the camera frustum in normalized Mercator
+   * space, covering everything the camera can see at any altitude.
+   * The X range is unwrapped when the view crosses the antimeridian.
+   * @returns {MercatorExtent|null} Extent, or `null` while the globe is active.
+   */
+  getViewExtent(): MercatorExtent | null {
+    if (this.projection === 'globe') {
+      return null;
+    }
+
+    this.getViewProjectionMatrix(tempViewProjectionMatrix)
+      .invert()
+      .premultiply(tempInverseMatrix.copy(this._world.matrix).invert());
+
+    const extent: MercatorExtent = [Infinity, Infinity, -Infinity, -Infinity];
+    for (let i = 0; i < 8; i++) {
+      tempCorner
+        .set(i & 1 ? 1 : -1, i & 2 ? 1 : -1, i & 4 ? 1 : -1)
+        .applyMatrix4(tempViewProjectionMatrix);
+
+      // World-local axes point west and south, centered on the map origin.
+      const x = 0.5 - tempCorner.x / WORLD_SIZE;
+      const y = 0.5 + tempCorner.y / WORLD_SIZE;
+      extent[0] = Math.min(extent[0], x);
+      extent[1] = Math.min(extent[1], y);
+      extent[2] = Math.max(extent[2], x);
+      extent[3] = Math.max(extent[3], y);
+    }
+
+    return extent;
+  }
+
+
+  /**
+   * Returns the camera's combined view and projection matrix, mapping scene
+   * space to clip space.
+   * @param {Matrix4} [target] - Optional matrix to write the result into.
+   * @returns {Matrix4}
+   */
+  getViewProjectionMatrix(target: Matrix4 = new Matrix4()): Matrix4 {
+    return target.multiplyMatrices(
+      this.camera.projectionMatrix,
+      tempInverseMatrix.copy(this.camera.matrixWorld).invert()
+    );
+  }
+
+
+  /**
+   * Computes the camera position in scene space for the active projection.
+   * On the globe the view is folded into the projection matrix, so the
+   * position is recovered as the point the view projection sends to infinity.
+   * @param {Vector3} [target] - Optional vector to write the result into.
+   * @returns {Vector3} Camera position in scene space.
+   */
+  getCameraPosition(target: Vector3 = new Vector3()): Vector3 {
+    tempCameraPosition
+      .set(0, 0, 1, 0)
+      .applyMatrix4(this.getViewProjectionMatrix(tempViewProjectionMatrix).invert());
+
+    return target
+      .set(tempCameraPosition.x, tempCameraPosition.y, tempCameraPosition.z)
+      .divideScalar(tempCameraPosition.w);
+  }
+
+
+  /**
+   * Returns the focal length of the camera in pixels: the size on screen of
+   * a length of one at a distance of one, in any unit.
+   * @returns {number}
+   */
+  getFocalLength(): number {
+    const { height, fov } = this._map.transform;
+    return height / (2 * Math.tan(fov * DEG_TO_RAD / 2));
+  }
+
+
+  /**
+   * Converts geographic coordinates to a position in scene space for the
+   * active projection.
+   * @param {number} lng - Longitude in degrees.
+   * @param {number} lat - Latitude in degrees.
+   * @param {number} alt - Altitude in meters.
+   * @param {Vector3} [target] - Optional vector to write the result into.
+   * @returns {Vector3} Position in scene space.
+   */
+  lngLatAltToScenePosition(lng: number, lat: number, alt: number, target: Vector3 = new Vector3()): Vector3 {
+    if (this.projection === 'globe') {
+      return target.setFromMatrixPosition(this.getGlobeModelMatrix(lng, lat, alt, tempGlobeModelMatrix));
+    }
+
+    return target.copy(lngLatToVector3(lng, lat, alt)).applyMatrix4(this._world.matrix);
+  }
+
+
+  /**
+   * Intersects a ray in scene space with the surface at a given altitude
+   * above sea level.
+   * @param {Ray} ray - Ray in scene space.
+   * @param {number} alt - Altitude in meters.
+   * @returns {LngLatAlt|null} Intersection, or `null` if the ray misses the surface.
+   */
+  intersectAltitude(ray: Ray, alt: number): LngLatAlt | null {
+    if (this.projection === 'globe') {
+      tempSphere.set(tempPosition.set(0, 0, 0), 1 + alt / EARTH_RADIUS);
+      if (!ray.intersectSphere(tempSphere, tempPosition)) {
+        return null;
+      }
+
+      const { lng, lat } = this.scenePositionToLngLatAlt(tempPosition);
+      return new LngLatAlt(lng, lat, alt);
+    }
+
+    tempInverseMatrix.copy(this._world.matrix).invert();
+    tempRayOrigin.copy(ray.origin).applyMatrix4(tempInverseMatrix);
+    tempRayDirection.copy(ray.origin).add(ray.direction).applyMatrix4(tempInverseMatrix).sub(tempRayOrigin);
+
+    if (Math.abs(tempRayDirection.z) < Number.EPSILON) {
+      return null;
+    }
+
+    // The height of an altitude in world units depends on the latitude of the
+    // intersection, so refine it starting from the map center.
+    let lng = this._map.transform.center.lng;
+    let lat = this._map.transform.center.lat;
+    for (let i = 0; i < 3; i++) {
+      const z = alt * projectedUnitsPerMeter(lat);
+      const t = (z - tempRayOrigin.z) / tempRayDirection.z;
+      if (t < 0) {
+        return null;
+      }
+
+      // World-local axes point west and south, centered on the map origin.
+      tempPosition.copy(tempRayDirection).multiplyScalar(t).add(tempRayOrigin);
+      lng = lngFromMercatorX(0.5 - tempPosition.x / WORLD_SIZE);
+      lat = clamp(latFromMercatorY(0.5 + tempPosition.y / WORLD_SIZE), -90, 90);
+    }
+
+    return new LngLatAlt(lng, lat, alt);
+  }
+
+
+  /**
+   * Points a raycaster through normalized device coordinates of the camera,
+   * from the near plane towards the far plane.
+   * @param {Raycaster} raycaster - Raycaster to update.
+   * @param {Vector2} coords - Normalized device coordinates in [-1, 1].
+   * @returns {Raycaster} The updated raycaster.
+   */
+  setRaycaster(raycaster: Raycaster, coords: Vector2): Raycaster {
+    this.getViewProjectionMatrix(tempViewProjectionMatrix).invert();
+
+    const { origin, direction } = raycaster.ray;
+    origin.set(coords.x, coords.y, -1).applyMatrix4(tempViewProjectionMatrix);
+    direction.set(coords.x, coords.y, 1).applyMatrix4(tempViewProjectionMatrix).sub(origin).normalize();
+    raycaster.camera = this.camera;
+
+    return raycaster;
+  }
+
+
+  /**
+   * Converts a position in scene space, such as a raycast hit, to geographic
+   * coordinates for the active projection.
+   * @param {Vector3} position - Position in scene space.
+   * @returns {LngLatAlt} Geographic position with altitude in meters.
+   */
+  scenePositionToLngLatAlt(position: Vector3): LngLatAlt {
+    if (this.projection === 'globe') {
+      const radius = position.length();
+      const lat = Math.asin(clamp(position.y / radius, -1, 1)) / DEG_TO_RAD;
+      const lng = Math.atan2(position.x, position.z) / DEG_TO_RAD;
+      return new LngLatAlt(lng, lat, (radius - 1) * EARTH_RADIUS);
+    }
+
+    // World-local axes point west and south, centered on the map origin.
+    tempPosition.copy(position).applyMatrix4(tempInverseMatrix.copy(this._world.matrix).invert());
+    const lng = lngFromMercatorX(0.5 - tempPosition.x / WORLD_SIZE);
+    const lat = latFromMercatorY(0.5 + tempPosition.y / WORLD_SIZE);
+    return new LngLatAlt(lng, lat, tempPosition.z / projectedUnitsPerMeter(lat));
   }
 
 
@@ -135,6 +466,8 @@ export class CameraAdapter {
     const matrices = this.camera.projectionMatrix.elements;
     matrices[8] = (-centerOffset.x * 2) / transform.width;
     matrices[9] = (centerOffset.y * 2) / transform.height;
+
+    this.camera.projectionMatrixInverse.copy(this.camera.projectionMatrix).invert();
   }
 
 
@@ -156,9 +489,12 @@ export class CameraAdapter {
       .premultiply(new Matrix4().makeRotationX(pitchRad))
       .premultiply(new Matrix4().makeRotationZ(-bearingRad));
 
+    // With terrain the map center sits at `transform.elevation` meters, so the
+    // camera is raised above the sea-level plane of the world by the same amount.
     if (transform.elevation) {
       cameraWorldMatrix.elements[14] =
-        transform.cameraToCenterDistance * Math.cos(pitchRad);
+        transform.cameraToCenterDistance * Math.cos(pitchRad) +
+        transform.elevation * transform.pixelsPerMeter;
     }
 
     this.camera.matrixWorld.copy(cameraWorldMatrix);
@@ -176,13 +512,12 @@ export class CameraAdapter {
     const zoomScale = transform.scale * WORLD_SIZE_RATIO;
     const scaleMatrix = new Matrix4().makeScale(zoomScale, zoomScale, zoomScale);
 
-    let { x, y } = transform.centerOffset;
-    if (!x || !y) {
-      const center = transform.center;
-      const lat = clamp(center.lat, -MAX_VALID_LATITUDE, MAX_VALID_LATITUDE);
-      x = mercatorXFromLng(center.lng) * transform.worldSize;
-      y = mercatorYFromLat(lat) * transform.worldSize;
-    }
+    // Padding is applied by the projection matrix, so the world is always
+    // centered on the map center.
+    const center = transform.center;
+    const lat = clamp(center.lat, -MAX_VALID_LATITUDE, MAX_VALID_LATITUDE);
+    const x = mercatorXFromLng(center.lng) * transform.worldSize;
+    const y = mercatorYFromLat(lat) * transform.worldSize;
 
     const translateMatrix = new Matrix4().makeTranslation(-x, y, 0);
     const flipYMatrix = new Matrix4().makeRotationZ(Math.PI);
@@ -195,6 +530,16 @@ export class CameraAdapter {
   }
 
 
+  /**
+   * Rebuilds the camera frustum from its projection and world matrices.
+   * @returns {void}
+   * @private
+   */
+  _updateFrustum(): void {
+    this.frustum.setFromProjectionMatrix(this.getViewProjectionMatrix(tempViewProjectionMatrix));
+  }
+
+
   /**
    * Internal map movement handler that updates camera matrices without
    * modifying the projection matrix.
@@ -0,0 +1,252 @@
+import type { WebGLRenderer, WebGLRenderTarget, Scene, Texture, Euler } from 'three';
+import type { RGBELoader } from 'three/addons/loaders/RGBELoader.js';
+import type { EXRLoader } from 'three/addons/loaders/EXRLoader.js';
+import type { RoomEnvironment } from 'three/addons/environments/RoomEnvironment.js';
+import type { ThreeEnvironmentOptions } from '../layers/ThreeLayer';
+import {
+  PMREMGenerator,
+  CubeTexture,
+  CubeTextureLoader,
+  TextureLoader,
+  EquirectangularReflectionMapping,
+  SRGBColorSpace,
+} from 'three';
+import { DEG_TO_RAD } from '../configs';
+
+
+let hdrLoader: RGBELoader;
+let exrLoader: EXRLoader;
+let textureLoader: TextureLoader;
+let cubeTextureLoader: CubeTextureLoader;
+
+
+/**
+ * Scene with the environment intensity and rotation of three.js r163 and
+ * later, which the type definitions the library is built with lack. Older
+ * versions ignore them.
+ */
+interface EnvironmentScene extends Scene {
+  environmentIntensity?: number;
+  environmentRotation?: Euler;
+}
+
+
+/**
+ * Texture with the color space of three.js r152 and later.
+ */
+interface ColorSpaceTexture extends Texture {
+  colorSpace?: string;
+}
+
+
+/**
+ * Lights physical materials with an environment map prefiltered by a
+ * `PMREMGenerator`. Sources load in the background and are prefiltered on the
+ * next frame, while the map's WebGL state is handed over to Three.js.
+ */
+export class EnvironmentManager {
+  /**
+   * Renderer prefiltering the environment.
+   * @type {WebGLRenderer}
+   * @private
+   */
+  _renderer: WebGLRenderer;
+  /**
+   * Scene lit by the environment.
+   * @type {Scene}
+   * @private
+   */
+  _scene: EnvironmentScene;
+  /**
+   * Called once a source finished loading, to request a frame.
+   * @type {() => void}
+   * @private
+   */
+  _onLoad: () => void;
+  /**
+   * Called when a source failed to load, or when the settings are not
+   * supported by the three.js version.
+   * @type {(error: unknown) => void}
+   * @private
+   */
+  _onError: (error: unknown) => void;
+  /**
+   * Generator prefiltering sources, created on first use.
+   * @type {PMREMGenerator|undefined}
+   * @private
+   */
+  _pmremGenerator?: PMREMGenerator;
+  /**
+   * Prefiltered environment applied to the scene.
+   * @type {WebGLRenderTarget|undefined}
+   * @private
+   */
+  _renderTarget?: WebGLRenderTarget;
+  /**
+   * Key of the source loaded or being loaded.
+   * @type {string|undefined}
+   * @private
+   */
+  _sourceKey?: string;
+  /**
+   * Loaded source waiting to be prefiltered.
+   * @type {Texture|RoomEnvironment|undefined}
+   * @private
+   */
+  _pendingSource?: Texture | RoomEnvironment;
+  /**
+   * Whether the missing support for intensity and rotation was reported.
+   * @type {boolean}
+   * @private
+   */
+  _unsupportedReported: boolean = false;
+
+
+  /**
+   * Creates the environment manager.
+   * @param {WebGLRenderer} renderer - Renderer prefiltering the environment.
+   * @param {Scene} scene - Scene lit by the environment.
+   * @param {() => void} onLoad - Called once a source finished loading.
+   * @param {(error: unknown) => void} onError - Called when a source failed to load, or the settings are not supported.
+   */
+  constructor(renderer: WebGLRenderer, scene: Scene, onLoad: () => void, onError: (error: unknown) => void) {
+    this._renderer = renderer;
+    this._scene = scene;
+    this._onLoad = onLoad;
+    this._onError = onError;
+  }
+
+
+  /**
+   * Applies environment settings, loading the source if it changed.
+   * @param {ThreeEnvironmentOptions} options - Environment settings.
+   * @returns {void}
+   */
+  setOptions(options: ThreeEnvironmentOptions): void {
+    // Scenes have `environmentRotation` from r163, along with the intensity.
+    const adjusted = (options.intensity ?? 1) !== 1 || (options.rotation ?? 0) !== 0;
+    if (adjusted && !this._scene.environmentRotation && !this._unsupportedReported) {
+      this._unsupportedReported = true;
+      this._onError(new Error('Environment intensity and rotation need three.js r163 or later'));
+    }
+
+    // Environment maps are Y-up, and the scene is Z-up. The rotation turns the
+    // environment clockwise seen from above.
+    this._scene.environmentIntensity = options.intensity ?? 1;
+    this._scene.environmentRotation?.set(Math.PI / 2, 0, -(options.rotation ?? 0) * DEG_TO_RAD);
+
+    const sourceKey = JSON.stringify(options.source);
+    if (sourceKey === this._sourceKey) {
+      return;
+    }
+
+    this._sourceKey = sourceKey;
+    this._loadSource(options.source).then(source => {
+      if (this._sourceKey !== sourceKey) {
+        source.dispose();
+        return;
+      }
+      this._pendingSource?.dispose();
+      this._pendingSource = source;
+      this._onLoad();
+    }).catch(error => {
+      if (this._sourceKey !== sourceKey) {
+        return;
+      }
+      // Forget the failed source, so setting it again retries.
+      this._sourceKey = undefined;
+      this._onError(error);
+    });
+  }
+
+
+  /**
+   * Prefilters a loaded source and applies it to the scene. Call it while
+   * rendering, when Three.js may use the WebGL context.
+   * @returns {void}
+   */
+  update(): void {
+    const source = this._pendingSource;
+    if (!source) {
+      return;
+    }
+
+    this._pendingSource = undefined;
+    this._renderer.resetState();
+    this._pmremGenerator ??= new PMREMGenerator(this._renderer);
+
+    const renderTarget = (source as RoomEnvironment).isScene
+      ? this._pmremGenerator.fromScene(source as RoomEnvironment, 0.04)
+      : (source as CubeTexture).isCubeTexture
+        ? this._pmremGenerator.fromCubemap(source as CubeTexture)
+        : this._pmremGenerator.fromEquirectangular(source as Texture);
+    source.dispose();
+
+    this._renderTarget?.dispose();
+    this._renderTarget = renderTarget;
+    this._scene.environment = renderTarget.texture;
+  }
+
+
+  /**
+   * Removes the environment from the scene and releases its resources.
+   * @returns {void}
+   */
+  remove(): void {
+    this._sourceKey = undefined;
+    this._pendingSource?.dispose();
+    this._pendingSource = undefined;
+    this._renderTarget?.dispose();
+    this._renderTarget = undefined;
+    this._pmremGenerator?.dispose();
+    this._pmremGenerator = undefined;
+    this._scene.environment = null;
+  }
+
+
+  /**
+   * Loads an environment source: a generated room, an equirectangular image,
+   * or the six faces of a cube map.
+   * @param {string|string[]} source - `'room'`, URL, or cube face URLs.
+   * @returns {Promise<Texture|RoomEnvironment>} The loaded source.
+   * @private
+   */
+  async _loadSource(source: string | string[]): Promise<Texture | RoomEnvironment> {
+    if (Array.isArray(source)) {
+      cubeTextureLoader ??= new CubeTextureLoader();
+      const cubeTexture: ColorSpaceTexture = await cubeTextureLoader.loadAsync(source);
+      cubeTexture.colorSpace = SRGBColorSpace;
+      return cubeTexture;
+    }
+
+    if (source === 'room') {
+      const module = await import('three/addons/environments/RoomEnvironment.js');
+      return new module.RoomEnvironment();
+    }
+
+    let texture: ColorSpaceTexture;
+    const extension = source.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+    if (extension === 'hdr') {
+      if (!hdrLoader) {
+        const module = await import('three/addons/loaders/RGBELoader.js');
+        hdrLoader = new module.RGBELoader();
+      }
+      texture = await hdrLoader.loadAsync(source);
+    } else if (extension === 'exr') {
+      if (!exrLoader) {
+        const module = await import('three/addons/loaders/EXRLoader.js');
+        exrLoader = new module.EXRLoader();
+      }
+      texture = await exrLoader.loadAsync(source);
+    } else {
+      textureLoader ??= new TextureLoader();
+      texture = await textureLoader.loadAsync(source);
+      texture.colorSpace = SRGBColorSpace;
+    }
+
+    texture.mapping = EquirectangularReflectionMapping;
+    return texture;
+  }
+
+
+}
@@ -0,0 +1,293 @@
+import type { Map } from 'maplibre-gl';
+import type { Scene, Group, DirectionalLight, Object3D } from 'three';
+import type { CameraAdapter } from './CameraAdapter';
+import type { ThreeShadowOptions } from '../layers/ThreeLayer';
+import { Mesh, PlaneGeometry, ShadowMaterial, Matrix4, Vector2, Vector3, Raycaster } from 'three';
+
+
+/**
+ * Farthest distance from the camera covered by shadows, as a multiple of the
+ * camera's distance to the map center. Keeps shadow maps sharp at high pitch.
+ */
+const MAX_SHADOW_DISTANCE = 4;
+
+
+/**
+ * Corners of the screen in normalized device coordinates.
+ */
+const SCREEN_CORNERS = [
+  new Vector2(-1, -1),
+  new Vector2(1, -1),
+  new Vector2(1, 1),
+  new Vector2(-1, 1),
+];
+
+
+const tempRaycaster = new Raycaster();
+const tempGroundPoints = SCREEN_CORNERS.map(() => new Vector3());
+const tempCameraPosition = new Vector3();
+const tempWorldOrigin = new Vector3();
+const tempDirection = new Vector3();
+const tempAxisX = new Vector3();
+const tempAxisY = new Vector3();
+const tempAxisZ = new Vector3();
+const tempCenter = new Vector3();
+const tempFocus = new Vector3();
+const tempEye = new Vector3();
+const tempBasisMatrix = new Matrix4();
+const tempInverseMatrix = new Matrix4();
+const tempOffset = new Vector3();
+const tempOrigin = new Vector3();
+
+
+/**
+ * Fits the shadow cameras of shadow-casting directional lights to the visible
+ * part of the map, and keeps a transparent ground plane receiving their shadows.
+ * Shadow maps are sized in powers of two and aligned to a grid fixed to the
+ * world, so shadows stay stable while the map is panned and zoomed.
+ */
+export class ShadowManager {
+  /**
+   * MapLibre map the shadows are fitted to.
+   * @type {Map}
+   * @private
+   */
+  _map: Map;
+  /**
+   * Scene holding the ground plane.
+   * @type {Scene}
+   * @private
+   */
+  _scene: Scene;
+  /**
+   * World group holding the lights.
+   * @type {Group}
+   * @private
+   */
+  _world: Group;
+  /**
+   * Transparent plane receiving shadows at the map center's elevation.
+   * @type {Mesh<PlaneGeometry, ShadowMaterial>}
+   * @private
+   */
+  _ground: Mesh<PlaneGeometry, ShadowMaterial>;
+  /**
+   * Resolution in pixels of each light's shadow map.
+   * @type {number}
+   * @private
+   */
+  _mapSize: number = 2048;
+
+
+  /**
+   * Creates the shadow manager and adds the ground plane to the scene.
+   * @param {Map} map - The MapLibre map instance providing transform data.
+   * @param {Scene} scene - Scene to add the ground plane to.
+   * @param {Group} world - World group holding the lights.
+   * @param {ThreeShadowOptions} [options] - Shadow settings.
+   */
+  constructor(map: Map, scene: Scene, world: Group, options: ThreeShadowOptions = {}) {
+    this._map = map;
+    this._scene = scene;
+    this._world = world;
+
+    this._ground = new Mesh(
+      new PlaneGeometry(1, 1),
+      new ShadowMaterial({ transparent: true, depthWrite: false })
+    );
+    this._ground.name = 'ThreeShadowGround';
+    this._ground.receiveShadow = true;
+    this._ground.visible = false;
+    this._scene.add(this._ground);
+
+    this.setOptions(options);
+  }
+
+
+  /**
+   * Applies shadow settings.
+   * @param {ThreeShadowOptions} options - Shadow settings.
+   * @returns {void}
+   */
+  setOptions(options: ThreeShadowOptions): void {
+    this._mapSize = options.mapSize ?? 2048;
+    this._ground.material.opacity = options.opacity ?? 0.4;
+  }
+
+
+  /**
+   * Fits every shadow-casting directional light to the current view and moves
+   * the ground plane under it. Hides the ground while the globe is active or
+   * no light casts shadows.
+   * @param {CameraAdapter} cameraAdapter - Camera adapter of the current frame.
+   * @param {Object3D[]} lightGroups - Groups holding the layer's lights.
+   * @returns {void}
+   */
+  update(cameraAdapter: CameraAdapter, lightGroups: Object3D[]): void {
+    const lights: DirectionalLight[] = [];
+    lightGroups.forEach(group => group.traverseVisible(object => {
+      if ((object as DirectionalLight).isDirectionalLight && object.castShadow) {
+        lights.push(object as DirectionalLight);
+      }
+    }));
+
+    this._ground.visible = !!lights.length && cameraAdapter.projection === 'mercator';
+    if (!this._ground.visible) {
+      return;
+    }
+
+    const { transform } = this._map;
+    const groundZ = (transform.elevation || 0) * transform.pixelsPerMeter;
+    this._getGroundPoints(cameraAdapter, groundZ);
+
+    // Scene space is the world scaled by the zoom and shifted to the map center.
+    const scale = this._world.matrix.getMaxScaleOnAxis();
+    tempWorldOrigin.setFromMatrixPosition(this._world.matrix);
+
+    tempCenter.set(0, 0, 0);
+    tempGroundPoints.forEach(point => tempCenter.add(point));
+    tempCenter.divideScalar(tempGroundPoints.length);
+
+    let radius = 0;
+    tempGroundPoints.forEach(point => {
+      radius = Math.max(radius, Math.hypot(point.x - tempCenter.x, point.y - tempCenter.y));
+    });
+
+    this._ground.position.copy(tempCenter);
+    this._ground.scale.set(radius * 2, radius * 2, 1);
+    this._ground.updateMatrixWorld();
+
+    lights.forEach(light => this._fitLight(light, scale));
+  }
+
+
+  /**
+   * Removes the ground plane and releases its resources.
+   * @returns {void}
+   */
+  remove(): void {
+    this._scene.remove(this._ground);
+    this._ground.geometry.dispose();
+    this._ground.material.dispose();
+  }
+
+
+  /**
+   * Intersects the rays through the screen corners with the ground, limited to
+   * the shadow distance, and stores the points in scene space.
+   * @param {CameraAdapter} cameraAdapter - Camera adapter of the current frame.
+   * @param {number} groundZ - Height of the ground in scene space.
+   * @returns {void}
+   * @private
+   */
+  _getGroundPoints(cameraAdapter: CameraAdapter, groundZ: number): void {
+    tempCameraPosition.setFromMatrixPosition(cameraAdapter.camera.matrixWorld);
+    const maxDistance = Math.hypot(tempCameraPosition.x, tempCameraPosition.y, tempCameraPosition.z - groundZ)
+      * MAX_SHADOW_DISTANCE;
+
+    SCREEN_CORNERS.forEach((corner, i) => {
+      const { origin, direction } = cameraAdapter.setRaycaster(tempRaycaster, corner).ray;
+      const distance = direction.z < 0 ? (groundZ - origin.z) / direction.z : Infinity;
+      tempGroundPoints[i]
+        .copy(direction)
+        .multiplyScalar(Math.min(Math.max(distance, 0), maxDistance))
+        .add(origin)
+        .setZ(groundZ);
+    });
+  }
+
+
+  /**
+   * Fits a light's shadow camera around the ground points. The light keeps the
+   * direction from its target to its position, while both are moved next to
+   * the view so the shadow camera stays close to the scene origin.
+   * @param {DirectionalLight} light - Shadow-casting light.
+   * @param {number} scale - Scale from world units to scene units.
+   * @returns {void}
+   * @private
+   */
+  _fitLight(light: DirectionalLight, scale: number): void {
+    light.parent?.updateWorldMatrix(true, false);
+    light.target.parent?.updateWorldMatrix(true, false);
+
+    tempDirection
+      .copy(light.position)
+      .sub(light.target.position)
+      .transformDirection(this._world.matrix);
+
+    if (tempDirection.lengthSq() === 0 || !Number.isFinite(tempDirection.x)) {
+      return;
+    }
+
+    // Same basis as the orthographic shadow camera looking along the light.
+    tempBasisMatrix.lookAt(tempDirection, tempOrigin.set(0, 0, 0), light.shadow.camera.up);
+    tempBasisMatrix.extractBasis(tempAxisX, tempAxisY, tempAxisZ);
+
+    // Coordinates across the light, in world units from the world origin, so
+    // the texel grid stays fixed to the world.
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    tempGroundPoints.forEach(point => {
+      tempOffset.copy(point).sub(tempWorldOrigin);
+      const x = tempOffset.dot(tempAxisX) / scale;
+      const y = tempOffset.dot(tempAxisY) / scale;
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    });
+
+    const size = Math.pow(2, Math.ceil(Math.log2(Math.max(maxX - minX, maxY - minY, 1e-9))));
+    const texel = size / this._mapSize;
+    const centerX = Math.round((minX + maxX) / 2 / texel) * texel;
+    const centerY = Math.round((minY + maxY) / 2 / texel) * texel;
+
+    tempOffset.copy(tempCenter).sub(tempWorldOrigin);
+    tempFocus
+      .copy(tempWorldOrigin)
+      .addScaledVector(tempAxisX, centerX * scale)
+      .addScaledVector(tempAxisY, centerY * scale)
+      .addScaledVector(tempAxisZ, tempOffset.dot(tempAxisZ));
+
+    const halfSize = size * scale / 2;
+    tempEye.copy(tempFocus).addScaledVector(tempAxisZ, halfSize * 2);
+
+    this._setWorldPosition(light, tempEye);
+    this._setWorldPosition(light.target, tempFocus);
+
+    const camera = light.shadow.camera;
+    camera.left = -halfSize;
+    camera.right = halfSize;
+    camera.top = halfSize;
+    camera.bottom = -halfSize;
+    camera.near = 0;
+    camera.far = halfSize * 4;
+    camera.updateProjectionMatrix();
+
+    if (light.shadow.mapSize.x !== this._mapSize) {
+      // A copy of the shadow has no map yet, so the renderer allocates one at
+      // the new size.
+      const shadow = light.shadow.clone();
+      shadow.mapSize.set(this._mapSize, this._mapSize);
+      light.shadow.dispose();
+      light.shadow = shadow;
+    }
+  }
+
+
+  /**
+   * Moves an object so that its world matrix places it at a position in scene space.
+   * @param {Object3D} object - Object to move.
+   * @param {Vector3} position - Position in scene space.
+   * @returns {void}
+   * @private
+   */
+  _setWorldPosition(object: Object3D, position: Vector3): void {
+    object.position.copy(position);
+    if (object.parent) {
+      object.position.applyMatrix4(tempInverseMatrix.copy(object.parent.matrixWorld).invert());
+    }
+    object.updateMatrixWorld();
+  }
+
+
+}
@@ -0,0 +1,252 @@
+/**
+ * Axis-aligned extent in normalized Web Mercator space: `[minX, minY, maxX, maxY]`,
+ * where the world spans [0, 1] on both axes.
+ */
+export type MercatorExtent = [number, number, number, number];
+
+
+/**
+ * Maximum number of cells a single item may occupy before it is kept in the
+ * list of large items that are tested on every search instead.
+ */
+const MAX_ITEM_CELLS = 64;
+
+
+/**
+ * Uniform grid index over normalized Web Mercator space.
+ * Stores items by extent and returns those intersecting a search extent.
+ */
+export class SpatialIndex<T> {
+  /**
+   * Number of grid cells along each axis of the world.
+   * @type {number}
+   * @private
+   */
+  _gridSize: number;
+  /**
+   * Items of each occupied cell, keyed by cell index.
+   * @type {Map<number, Set<T>>}
+   * @private
+   */
+  _cells: Map<number, Set<T>> = new Map();
+  /**
+   * Indexed extent of each item. `null` marks items without a position.
+   * @type {Map<T, MercatorExtent|null>}
+   * @private
+   */
+  _extents: Map<T, MercatorExtent | null> = new Map();
+  /**
+   * Items without a position or covering too many cells, tested on every search.
+   * @type {Set<T>}
+   * @private
+   */
+  _largeItems: Set<T> = new Set();
+
+
+  /**
+   * Creates an empty spatial index.
+   * @param {number} [gridSize] - Number of grid cells along each axis of the world.
+   */
+  constructor(gridSize: number = 4096) {
+    this._gridSize = gridSize;
+  }
+
+
+  /**
+   * Returns whether an item is indexed.
+   * @param {T} item
+   * @returns {boolean}
+   */
+  has(item: T): boolean {
+    return this._extents.has(item);
+  }
+
+
+  /**
+   * Inserts an item, replacing its previous extent if it is already indexed.
+   * @param {T} item - Item to index.
+   * @param {MercatorExtent|null} extent - Extent of the item, or `null` if it has no position.
+   * @returns {void}
+   */
+  insert(item: T, extent: MercatorExtent | null): void {
+    if (this._extents.has(item)) {
+      this.remove(item);
+    }
+
+    this._extents.set(item, extent);
+
+    if (!extent) {
+      this._largeItems.add(item);
+      return;
+    }
+
+    const [x0, y0, x1, y1] = this._cellRange(extent);
+    if ((x1 - x0 + 1) * (y1 - y0 + 1) > MAX_ITEM_CELLS) {
+      this._largeItems.add(item);
+      return;
+    }
+
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        const key = y * this._gridSize + x;
+        let cell = this._cells.get(key);
+        if (!cell) {
+          cell = new Set();
+          this._cells.set(key, cell);
+        }
+        cell.add(item);
+      }
+    }
+  }
+
+
+  /**
+   * Removes an item from the index.
+   * @param {T} item
+   * @returns {void}
+   */
+  remove(item: T): void {
+    if (!this._extents.has(item)) {
+      return;
+    }
+
+    const extent = this._extents.get(item)!;
+    this._extents.delete(item);
+
+    if (this._largeItems.delete(item) || !extent) {
+      return;
+    }
+
+    const [x0, y0, x1, y1] = this._cellRange(extent);
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        const key = y * this._gridSize + x;
+        const cell = this._cells.get(key);
+        if (cell) {
+          cell.delete(item);
+          cell.size || this._cells.delete(key);
+        }
+      }
+    }
+  }
+
+
+  /**
+   * Removes every item from the index.
+   * @returns {void}
+   */
+  clear(): void {
+    this._cells.clear();
+    this._extents.clear();
+    this._largeItems.clear();
+  }
+
+
+  /**
+   * Returns every item whose extent intersects the search extent, plus items
+   * without a position. The search extent may cross the antimeridian, in which
+   * case its X range extends below 0 or beyond 1.
+   * @param {MercatorExtent} extent - Search extent.
+   * @returns {Set<T>} Matching items.
+   */
+  search(extent: MercatorExtent): Set<T> {
+    const [minX, minY, maxX, maxY] = extent;
+    const result = new Set<T>();
+
+    if (maxX - minX >= 1) {
+      this._searchRange([0, minY, 1, maxY], result);
+    } else {
+      const offset = Math.floor(minX);
+      const x0 = minX - offset;
+      const x1 = maxX - offset;
+      this._searchRange([x0, minY, Math.min(x1, 1), maxY], result);
+      if (x1 > 1) {
+        this._searchRange([0, minY, x1 - 1, maxY], result);
+      }
+    }
+
+    this._largeItems.forEach(item => {
+      const itemExtent = this._extents.get(item);
+      if (!itemExtent || this._intersects(itemExtent, extent)) {
+        result.add(item);
+      }
+    });
+
+    return result;
+  }
+
+
+  /**
+   * Collects items intersecting an extent that lies within the world.
+   * Walks the grid cells of the extent, or the occupied cells when there are fewer.
+   * @param {MercatorExtent} extent - Search extent within [0, 1].
+   * @param {Set<T>} result - Set collecting matching items.
+   * @returns {void}
+   * @private
+   */
+  _searchRange(extent: MercatorExtent, result: Set<T>): void {
+    const [x0, y0, x1, y1] = this._cellRange(extent);
+    const collect = (cell: Set<T>) => cell.forEach(item => {
+      if (!result.has(item) && this._intersects(this._extents.get(item)!, extent)) {
+        result.add(item);
+      }
+    });
+
+    if ((x1 - x0 + 1) * (y1 - y0 + 1) > this._cells.size) {
+      this._cells.forEach((cell, key) => {
+        const x = key % this._gridSize;
+        const y = Math.floor(key / this._gridSize);
+        if (x0 <= x && x <= x1 && y0 <= y && y <= y1) {
+          collect(cell);
+        }
+      });
+      return;
+    }
+
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        const cell = this._cells.get(y * this._gridSize + x);
+        cell && collect(cell);
+      }
+    }
+  }
+
+
+  /**
+   * Converts an extent into the inclusive range of grid cells it covers.
+   * @param {MercatorExtent} extent
+   * @returns {[number, number, number, number]} `[x0, y0, x1, y1]` cell range.
+   * @private
+   */
+  _cellRange([minX, minY, maxX, maxY]: MercatorExtent): [number, number, number, number] {
+    const max = this._gridSize - 1;
+    const toCell = (value: number) => Math.min(max, Math.max(0, Math.floor(value * this._gridSize)));
+    return [toCell(minX), toCell(minY), toCell(maxX), toCell(maxY)];
+  }
+
+
+  /**
+   * Checks whether two extents intersect, accounting for antimeridian wrapping
+   * of the second extent.
+   * @param {MercatorExtent} a - Item extent within the world.
+   * @param {MercatorExtent} b - Search extent.
+   * @returns {boolean}
+   * @private
+   */
+  _intersects(a: MercatorExtent, b: MercatorExtent): boolean {
+    if (a[1] > b[3] || a[3] < b[1]) {
+      return false;
+    }
+
+    if (b[2] - b[0] >= 1) {
+      return true;
+    }
+
+    const offset = Math.floor(b[0]);
+    const minX = b[0] - offset;
+    const maxX = b[2] - offset;
+    return (a[0] <= maxX && a[2] >= minX) || (a[0] <= maxX - 1 && a[2] >= minX - 1);
+  }
+
+
+}
@@ -0,0 +1,231 @@
+import type {
+  ThreeLoaderRegistry,
+  ThreeLoadedAsset,
+  ThreeLoadProgressCallback,
+  ThreeModelUrlType,
+} from './ThreeLoaderRegistry';
+import { clone } from 'three/addons/utils/SkeletonUtils.js';
+import { ThreeLoaders } from './ThreeLoaderRegistry';
+import { disposeObject, abortable } from '../utils';
+
+
+/**
+ * State of an asset in a cache.
+ * - `refCount`: number of models and preloads using the asset.
+ * - `loaded`: whether the asset finished loading.
+ */
+export interface ThreeCachedAssetInfo {
+  type: ThreeModelUrlType;
+  url: string;
+  refCount: number;
+  loaded: boolean;
+}
+
+
+/**
+ * Options of `ThreeAssetCache.acquire`.
+ * - `signal`: cancels the wait, giving the reference back.
+ * - `onProgress`: called with the download progress while the asset loads.
+ */
+export interface ThreeAssetRequest {
+  signal?: AbortSignal;
+  onProgress?: ThreeLoadProgressCallback;
+}
+
+
+/**
+ * Asset cached for a model type and URL, with the progress listeners of the
+ * users waiting for it.
+ */
+interface ThreeAssetCacheEntry {
+  type: ThreeModelUrlType;
+  url: string;
+  refCount: number;
+  promise: Promise<ThreeLoadedAsset>;
+  progressListeners: Set<ThreeLoadProgressCallback>;
+  asset?: ThreeLoadedAsset;
+}
+
+
+/**
+ * Builds the cache key of an asset.
+ * @param {ThreeModelUrlType} type - Model type.
+ * @param {string} url - Model URL.
+ * @returns {string}
+ */
+function getCacheKey(type: ThreeModelUrlType, url: string): string {
+  return `${type}:${url}`;
+}
+
+
+/**
+ * Cache of loaded assets keyed by model type and URL, so models of the same
+ * URL load it once. Models get clones sharing geometries, materials, and
+ * textures, with skeletons rebound for skinned meshes. Assets are counted by
+ * reference and disposed once their last user releases them. A model holds
+ * its reference from its load until it is destroyed, so a model removed from
+ * its layer keeps its asset and can be added again; `ThreeModel.destroy`
+ * releases it.
+ */
+export class ThreeAssetCache {
+  /**
+   * Registry the assets are loaded with.
+   * @type {ThreeLoaderRegistry}
+   * @private
+   */
+  _loaders: ThreeLoaderRegistry;
+  /**
+   * Cached assets keyed by model type and URL.
+   * @type {Record<string, ThreeAssetCacheEntry>}
+   * @private
+   */
+  _entries: Record<string, ThreeAssetCacheEntry> = {};
+
+
+  /**
+   * Creates an empty cache.
+   * @param {ThreeLoaderRegistry} [loaders] - Registry the assets are loaded with. Defaults to `ThreeLoaders`.
+   */
+  constructor(loaders: ThreeLoaderRegistry = ThreeLoaders) {
+    this._loaders = loaders;
+  }
+
+
+  /**
+   * Takes a reference to an asset, loading it unless cached, and returns a
+   * clone sharing its geometries, materials, and textures. Change materials of
+   * the clone only after cloning them. A cancelled request gives its
+   * reference back and rejects with the reason of its signal.
+   * @param {ThreeModelUrlType} type - Model type.
+   * @param {string} url - Model URL.
+   * @param {ThreeAssetRequest} [request] - Cancellation signal and progress callback.
+   * @returns {Promise<ThreeLoadedAsset>} Clone of the asset.
+   */
+  async acquire(type: ThreeModelUrlType, url: string, request: ThreeAssetRequest = {}): Promise<ThreeLoadedAsset> {
+    const { signal, onProgress } = request;
+    signal?.throwIfAborted();
+
+    const entry = this._getEntry(type, url);
+    entry.refCount++;
+    onProgress && entry.progressListeners.add(onProgress);
+
+    try {
+      const asset = await abortable(entry.promise, signal);
+      return {
+        scene: clone(asset.scene),
+        animations: asset.animations,
+      };
+    } catch (error) {
+      // Failed loads are already removed from the cache.
+      if (signal?.aborted && this._entries[getCacheKey(type, url)] === entry) {
+        this.release(type, url);
+      }
+      throw error;
+    } finally {
+      onProgress && entry.progressListeners.delete(onProgress);
+    }
+  }
+
+
+  /**
+   * Releases a reference to an asset, and disposes the asset once it has no
+   * users left.
+   * @param {ThreeModelUrlType} type - Model type.
+   * @param {string} url - Model URL.
+   * @returns {void}
+   */
+  release(type: ThreeModelUrlType, url: string): void {
+    const key = getCacheKey(type, url);
+    const entry = this._entries[key];
+    if (!entry || --entry.refCount > 0) {
+      return;
+    }
+
+    delete this._entries[key];
+    entry.asset && disposeObject(entry.asset.scene);
+  }
+
+
+  /**
+   * Loads an asset ahead of the models using it, and keeps it until released
+   * with `release`.
+   * @param {ThreeModelUrlType} type - Model type.
+   * @param {string} url - Model URL.
+   * @returns {Promise<void>} Resolves once the asset is loaded.
+   */
+  async preload(type: ThreeModelUrlType, url: string): Promise<void> {
+    const entry = this._getEntry(type, url);
+    entry.refCount++;
+    await entry.promise;
+  }
+
+
+  /**
+   * Checks whether an asset is cached or being loaded.
+   * @param {ThreeModelUrlType} type - Model type.
+   * @param {string} url - Model URL.
+   * @returns {boolean}
+   */
+  has(type: ThreeModelUrlType, url: string): boolean {
+    return !!this._entries[getCacheKey(type, url)];
+  }
+
+
+  /**
+   * Lists the cached assets and the assets being loaded.
+   * @returns {ThreeCachedAssetInfo[]}
+   */
+  getAssets(): ThreeCachedAssetInfo[] {
+    return Object.values(this._entries).map(({ type, url, refCount, asset }) => ({
+      type,
+      url,
+      refCount,
+      loaded: !!asset,
+    }));
+  }
+
+
+  /**
+   * Returns the entry of an asset, loading it unless cached. Failed loads are
+   * removed from the cache, so the next user tries again.
+   * @param {ThreeModelUrlType} type - Model type.
+   * @param {string} url - Model URL.
+   * @returns {ThreeAssetCacheEntry}
+   * @private
+   */
+  _getEntry(type: ThreeModelUrlType, url: string): ThreeAssetCacheEntry {
+    const key = getCacheKey(type, url);
+    const cached = this._entries[key];
+    if (cached) {
+      return cached;
+    }
+
+    const progressListeners = new Set<ThreeLoadProgressCallback>();
+    const entry: ThreeAssetCacheEntry = {
+      type,
+      url,
+      refCount: 0,
+      promise: this._loaders.load(type, url, event => progressListeners.forEach(listener => listener(event))),
+      progressListeners,
+    };
+    this._entries[key] = entry;
+
+    entry.promise.then(asset => {
+      entry.asset = asset;
+      // Released by every user while loading.
+      this._entries[key] !== entry && disposeObject(asset.scene);
+    }, () => {
+      this._entries[key] === entry && delete this._entries[key];
+    });
+
+    return entry;
+  }
+
+
+}
+
+
+/**
+ * Global asset cache models load their assets through.
+ */
+export const ThreeAssets = new ThreeAssetCache();
@@ -0,0 +1,466 @@
+import type { Object3D, AnimationClip, Loader, WebGLRenderer, BufferGeometry } from 'three';
+import type { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
+import type { ThreeModelType } from '../objects/ThreeModel';
+import { LoadingManager, Mesh, MeshStandardMaterial } from 'three';
+
+
+/**
+ * Type of model loaded from a URL.
+ */
+export type ThreeModelUrlType = Exclude<ThreeModelType, 'mesh'>;
+
+
+/**
+ * Settings shared by every loader of a registry.
+ * - `manager`: loading manager tracking every request. Defaults to a new one.
+ * - `requestHeader`: headers sent with every request.
+ * - `withCredentials`: whether requests send cookies and credentials. Defaults to `false`.
+ * - `crossOrigin`: cross-origin setting of image requests. Defaults to `'anonymous'`.
+ * - `transformUrl`: rewrites the URL of every model and of every file it references.
+ * - `dracoDecoderPath`: path of the Draco decoder, enabling Draco-compressed glTF geometry.
+ * - `ktx2TranscoderPath`: path of the Basis transcoder, enabling KTX2 glTF
+ *   textures. These load once a layer is on a map, to detect GPU support.
+ * - `meshoptDecoder`: whether to decode Meshopt-compressed glTF geometry.
+ */
+export interface ThreeLoaderOptions {
+  manager?: LoadingManager;
+  requestHeader?: Record<string, string>;
+  withCredentials?: boolean;
+  crossOrigin?: string;
+  transformUrl?: (url: string) => string;
+  dracoDecoderPath?: string;
+  ktx2TranscoderPath?: string;
+  meshoptDecoder?: boolean;
+}
+
+
+/**
+ * Content of a loaded model.
+ */
+export interface ThreeLoadedAsset {
+  scene: Object3D;
+  animations: AnimationClip[];
+}
+
+
+/**
+ * Called with the download progress of a model.
+ */
+export type ThreeLoadProgressCallback = (event: ProgressEvent) => void;
+
+
+/**
+ * Loads a model of one type from a URL, using the registry's settings, and
+ * reports the download progress.
+ */
+export type ThreeAssetLoader = (
+  url: string,
+  registry: ThreeLoaderRegistry,
+  onProgress?: ThreeLoadProgressCallback
+) => Promise<ThreeLoadedAsset>;
+
+
+/**
+ * Loader registered for a model type, with the file extensions it handles.
+ */
+interface ThreeLoaderEntry {
+  loader: ThreeAssetLoader;
+  extensions: string[];
+}
+
+
+/**
+ * Frees the resources of a loader that has any, such as the worker pools of
+ * the Draco and KTX2 decoders.
+ * @param {Loader} loader
+ * @returns {void}
+ */
+function disposeLoader(loader: Loader): void {
+  (loader as Loader & { dispose?: () => void }).dispose?.();
+}
+
+
+/**
+ * Returns the glTF loader of a registry, with the Draco, KTX2 and Meshopt
+ * decoders configured. Shared by glTF models and 3D Tiles content.
+ * @param {ThreeLoaderRegistry} registry - Registry providing the settings.
+ * @returns {Promise<GLTFLoader>}
+ */
+export function getGLTFLoader(registry: ThreeLoaderRegistry): Promise<GLTFLoader> {
+  return registry.getLoader('gltf', async () => {
+    const { GLTFLoader } = await import('three/addons/loaders/GLTFLoader.js');
+    const gltfLoader = registry.setupLoader(new GLTFLoader());
+    const { dracoDecoderPath, ktx2TranscoderPath, meshoptDecoder } = registry.getOptions();
+
+    // Decoders are kept as loaders of their own, so their workers are
+    // disposed when the settings change.
+    if (dracoDecoderPath) {
+      gltfLoader.setDRACOLoader(await registry.getLoader('draco', async () => {
+        const { DRACOLoader } = await import('three/addons/loaders/DRACOLoader.js');
+        return registry.setupLoader(new DRACOLoader()).setDecoderPath(dracoDecoderPath);
+      }));
+    }
+    if (ktx2TranscoderPath) {
+      gltfLoader.setKTX2Loader(await registry.getLoader('ktx2', async () => {
+        const { KTX2Loader } = await import('three/addons/loaders/KTX2Loader.js');
+        const renderer = await registry._renderer;
+        return registry.setupLoader(new KTX2Loader()).setTranscoderPath(ktx2TranscoderPath).detectSupport(renderer);
+      }));
+    }
+    if (meshoptDecoder) {
+      const { MeshoptDecoder } = await import('three/addons/libs/meshopt_decoder.module.js');
+      gltfLoader.setMeshoptDecoder(MeshoptDecoder);
+    }
+
+    return gltfLoader;
+  });
+}
+
+
+/**
+ * Loads glTF models.
+ * @param {string} url - Model URL.
+ * @param {ThreeLoaderRegistry} registry - Registry providing the settings.
+ * @param {ThreeLoadProgressCallback} [onProgress] - Called with the download progress.
+ * @returns {Promise<ThreeLoadedAsset>}
+ */
+async function loadGLTF(
+  url: string,
+  registry: ThreeLoaderRegistry,
+  onProgress?: ThreeLoadProgressCallback
+): Promise<ThreeLoadedAsset> {
+  const loader = await getGLTFLoader(registry);
+  const gltf = await loader.loadAsync(url, onProgress);
+  return { scene: gltf.scene, animations: gltf.animations };
+}
+
+
+/**
+ * Loads FBX models.
+ * @param {string} url - Model URL.
+ * @param {ThreeLoaderRegistry} registry - Registry providing the settings.
+ * @param {ThreeLoadProgressCallback} [onProgress] - Called with the download progress.
+ * @returns {Promise<ThreeLoadedAsset>}
+ */
+async function loadFBX(
+  url: string,
+  registry: ThreeLoaderRegistry,
+  onProgress?: ThreeLoadProgressCallback
+): Promise<ThreeLoadedAsset> {
+  const loader = await registry.getLoader('fbx', async () => {
+    const { FBXLoader } = await import('three/addons/loaders/FBXLoader.js');
+    return registry.setupLoader(new FBXLoader());
+  });
+
+  const fbx = await loader.loadAsync(url, onProgress);
+  return { scene: fbx, animations: fbx.animations };
+}
+
+
+/**
+ * Loads OBJ models.
+ * @param {string} url - Model URL.
+ * @param {ThreeLoaderRegistry} registry - Registry providing the settings.
+ * @param {ThreeLoadProgressCallback} [onProgress] - Called with the download progress.
+ * @returns {Promise<ThreeLoadedAsset>}
+ */
+async function loadOBJ(
+  url: string,
+  registry: ThreeLoaderRegistry,
+  onProgress?: ThreeLoadProgressCallback
+): Promise<ThreeLoadedAsset> {
+  const loader = await registry.getLoader('obj', async () => {
+    const { OBJLoader } = await import('three/addons/loaders/OBJLoader.js');
+    return registry.setupLoader(new OBJLoader());
+  });
+
+  return { scene: await loader.loadAsync(url, onProgress), animations: [] };
+}
+
+
+/**
+ * Loads STL models.
+ * @param {string} url - Model URL.
+ * @param {ThreeLoaderRegistry} registry - Registry providing the settings.
+ * @param {ThreeLoadProgressCallback} [onProgress] - Called with the download progress.
+ * @returns {Promise<ThreeLoadedAsset>}
+ */
+async function loadSTL(
+  url: string,
+  registry: ThreeLoaderRegistry,
+  onProgress?: ThreeLoadProgressCallback
+): Promise<ThreeLoadedAsset> {
+  const loader = await registry.getLoader('stl', async () => {
+    const { STLLoader } = await import('three/addons/loaders/STLLoader.js');
+    return registry.setupLoader(new STLLoader());
+  });
+
+  return { scene: createGeometryMesh(await loader.loadAsync(url, onProgress)), animations: [] };
+}
+
+
+/**
+ * Loads PLY models.
+ * @param {string} url - Model URL.
+ * @param {ThreeLoaderRegistry} registry - Registry providing the settings.
+ * @param {ThreeLoadProgressCallback} [onProgress] - Called with the download progress.
+ * @returns {Promise<ThreeLoadedAsset>}
+ */
+async function loadPLY(
+  url: string,
+  registry: ThreeLoaderRegistry,
+  onProgress?: ThreeLoadProgressCallback
+): Promise<ThreeLoadedAsset> {
+  const loader = await registry.getLoader('ply', async () => {
+    const { PLYLoader } = await import('three/addons/loaders/PLYLoader.js');
+    return registry.setupLoader(new PLYLoader());
+  });
+
+  return { scene: createGeometryMesh(await loader.loadAsync(url, onProgress)), animations: [] };
+}
+
+
+/**
+ * Loads Collada models.
+ * @param {string} url - Model URL.
+ * @param {ThreeLoaderRegistry} registry - Registry providing the settings.
+ * @param {ThreeLoadProgressCallback} [onProgress] - Called with the download progress.
+ * @returns {Promise<ThreeLoadedAsset>}
+ */
+async function loadCollada(
+  url: string,
+  registry: ThreeLoaderRegistry,
+  onProgress?: ThreeLoadProgressCallback
+): Promise<ThreeLoadedAsset> {
+  const loader = await registry.getLoader('collada', async () => {
+    const { ColladaLoader } = await import('three/addons/loaders/ColladaLoader.js');
+    return registry.setupLoader(new ColladaLoader());
+  });
+
+  const collada = await loader.loadAsync(url, onProgress);
+  return { scene: collada.scene, animations: collada.scene.animations };
+}
+
+
+/**
+ * Wraps a geometry-only model in a mesh, shaded with its vertex colors if any.
+ * @param {BufferGeometry} geometry - Loaded geometry.
+ * @returns {Mesh} Mesh of the geometry.
+ */
+function createGeometryMesh(geometry: BufferGeometry): Mesh {
+  if (!geometry.hasAttribute('normal')) {
+    geometry.computeVertexNormals();
+  }
+  return new Mesh(geometry, new MeshStandardMaterial({ vertexColors: geometry.hasAttribute('color') }));
+}
+
+
+/**
+ * Registry of the loaders models are loaded with, keyed by model type. It
+ * shares request settings, decoders, and a loading manager between loaders,
+ * and accepts loaders for more types. Models use the global `ThreeLoaders`.
+ */
+export class ThreeLoaderRegistry {
+  /**
+   * Settings shared by every loader.
+   * @type {ThreeLoaderOptions}
+   * @private
+   */
+  _options: ThreeLoaderOptions = {};
+  /**
+   * Loading manager tracking every request.
+   * @type {LoadingManager}
+   * @private
+   */
+  _manager: LoadingManager = new LoadingManager();
+  /**
+   * Loaders keyed by model type.
+   * @type {Partial<Record<string, ThreeLoaderEntry>>}
+   * @private
+   */
+  _entries: Partial<Record<string, ThreeLoaderEntry>> = {};
+  /**
+   * Configured Three.js loaders, created on first use and keyed by name.
+   * @type {Partial<Record<string, Promise<Loader>>>}
+   * @private
+   */
+  _instances: Partial<Record<string, Promise<Loader>>> = {};
+  /**
+   * Renderer of the first layer added to a map, to detect texture support.
+   * @type {Promise<WebGLRenderer>}
+   * @private
+   */
+  _renderer: Promise<WebGLRenderer>;
+  /**
+   * Resolves `_renderer`.
+   * @type {(renderer: WebGLRenderer) => void}
+   * @private
+   */
+  _resolveRenderer!: (renderer: WebGLRenderer) => void;
+
+
+  /**
+   * Creates a registry with loaders for glTF, FBX, OBJ, STL, PLY and Collada.
+   * @param {ThreeLoaderOptions} [options] - Settings shared by every loader.
+   */
+  constructor(options: ThreeLoaderOptions = {}) {
+    this._renderer = new Promise(resolve => this._resolveRenderer = resolve);
+
+    this.register('gltf', loadGLTF, ['gltf', 'glb']);
+    this.register('fbx', loadFBX, ['fbx']);
+    this.register('obj', loadOBJ, ['obj']);
+    this.register('stl', loadSTL, ['stl']);
+    this.register('ply', loadPLY, ['ply']);
+    this.register('collada', loadCollada, ['dae']);
+
+    this.configure(options);
+  }
+
+
+  /**
+   * Returns the settings shared by every loader.
+   * @returns {ThreeLoaderOptions}
+   */
+  getOptions(): ThreeLoaderOptions {
+    return this._options;
+  }
+
+
+  /**
+   * Merges settings into the current ones. Loaders are created again with the
+   * new settings for the next models, and the previous ones are disposed.
+   * @param {ThreeLoaderOptions} options - Settings to change.
+   * @returns {this}
+   */
+  configure(options: ThreeLoaderOptions): this {
+    this._options = { ...this._options, ...options };
+    this._manager = this._options.manager ?? this._manager;
+    this._manager.setURLModifier(this._options.transformUrl);
+    Object.values(this._instances).forEach(instance => instance!.then(disposeLoader, () => {}));
+    this._instances = {};
+    return this;
+  }
+
+
+  /**
+   * Registers the loader of a model type, replacing any loader registered
+   * before. To type new model types, extend `ThreeModelLoaderTypes`.
+   * @param {ThreeModelUrlType} type - Model type.
+   * @param {ThreeAssetLoader} loader - Function loading a model from a URL.
+   * @param {string[]} [extensions] - File extensions of the type, used to
+   *   guess the type of a URL. Defaults to the type itself.
+   * @returns {this}
+   */
+  register(type: ThreeModelUrlType, loader: ThreeAssetLoader, extensions: string[] = [type]): this {
+    this._entries[type] = {
+      loader,
+      extensions: extensions.map(extension => extension.toLowerCase()),
+    };
+    delete this._instances[type];
+    return this;
+  }
+
+
+  /**
+   * Removes the loader of a model type.
+   * @param {ThreeModelUrlType} type - Model type.
+   * @returns {this}
+   */
+  unregister(type: ThreeModelUrlType): this {
+    delete this._entries[type];
+    delete this._instances[type];
+    return this;
+  }
+
+
+  /**
+   * Checks whether a loader is registered for a model type.
+   * @param {ThreeModelUrlType} type - Model type.
+   * @returns {boolean}
+   */
+  has(type: ThreeModelUrlType): boolean {
+    return !!this._entries[type];
+  }
+
+
+  /**
+   * Guesses the model type of a URL from its file extension.
+   * @param {string} url - Model URL.
+   * @returns {ThreeModelUrlType|undefined} The type, or `undefined` if no loader handles the extension.
+   */
+  getTypeFromUrl(url: string): ThreeModelUrlType | undefined {
+    const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase() ?? '';
+    return (Object.keys(this._entries) as ThreeModelUrlType[])
+      .find(type => this._entries[type]!.extensions.includes(extension));
+  }
+
+
+  /**
+   * Loads a model with the loader of its type.
+   * @param {ThreeModelUrlType} type - Model type.
+   * @param {string} url - Model URL.
+   * @param {ThreeLoadProgressCallback} [onProgress] - Called with the download progress.
+   * @returns {Promise<ThreeLoadedAsset>} The loaded model.
+   */
+  load(type: ThreeModelUrlType, url: string, onProgress?: ThreeLoadProgressCallback): Promise<ThreeLoadedAsset> {
+    const entry = this._entries[type];
+    if (!entry) {
+      return Promise.reject(new Error(`No loader registered for model type '${type}'.`));
+    }
+    return entry.loader(url, this, onProgress);
+  }
+
+
+  /**
+   * Applies the loading manager and request settings to a Three.js loader.
+   * Use it in loaders registered for new model types.
+   * @param {Loader} loader - Loader to set up.
+   * @returns {Loader} The same loader.
+   */
+  setupLoader<T extends Loader>(loader: T): T {
+    loader.manager = this._manager;
+    loader.setRequestHeader(this._options.requestHeader ?? {});
+    loader.setWithCredentials(!!this._options.withCredentials);
+    loader.setCrossOrigin(this._options.crossOrigin ?? 'anonymous');
+    return loader;
+  }
+
+
+  /**
+   * Returns a loader created once per name with the current settings, and
+   * created again after the settings change.
+   * @param {string} name - Name of the loader, usually the model type.
+   * @param {() => Promise<Loader>} create - Creates the loader.
+   * @returns {Promise<Loader>} The loader.
+   */
+  getLoader<T extends Loader>(name: string, create: () => Promise<T>): Promise<T> {
+    if (!this._instances[name]) {
+      const instance = create();
+      this._instances[name] = instance;
+      // Try again on the next model if creating the loader failed.
+      instance.catch(() => {
+        this._instances[name] === instance && delete this._instances[name];
+      });
+    }
+    return this._instances[name] as Promise<T>;
+  }
+
+
+  /**
+   * Provides the renderer KTX2 texture support is detected with.
+   * @param {WebGLRenderer} renderer
+   * @returns {void}
+   * @private
+   */
+  _setRenderer(renderer: WebGLRenderer): void {
+    this._resolveRenderer(renderer);
+  }
+
+
+}
+
+
+/**
+ * Global loader registry models are loaded with.
+ */
+export const ThreeLoaders = new ThreeLoaderRegistry();
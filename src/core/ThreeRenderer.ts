@@ -1,4 +1,4 @@
-import { Scene, PerspectiveCamera, WebGLRenderer } from 'three';
+import { Scene, PerspectiveCamera, WebGLRenderer, PCFSoftShadowMap, Material, Mesh } from 'three';
 
 
 /**
@@ -61,12 +61,39 @@ export class ThreeRenderer {
 
 
   /**
-   * Cleans renderer and detaches scene and camera resources.
+   * Enables or disables shadow mapping, recompiling the scene's materials.
+   * @param {boolean} enabled - Whether lights and objects render shadows.
+   * @returns {void}
+   */
+  setShadows(enabled: boolean): void {
+    if (this._renderer.shadowMap.enabled === enabled) {
+      return;
+    }
+
+    this._renderer.shadowMap.enabled = enabled;
+    this._renderer.shadowMap.type = PCFSoftShadowMap;
+    this._renderer.shadowMap.needsUpdate = true;
+
+    this._scene.traverse(object => {
+      const material = (object as Mesh).material as Material | Material[] | undefined;
+      if (Array.isArray(material)) {
+        material.forEach(item => item.needsUpdate = true);
+      } else if (material) {
+        material.needsUpdate = true;
+      }
+    });
+  }
+
+
+  /**
+   * Cleans and disposes the renderer, and detaches scene and camera resources.
+   * The WebGL context belongs to the map and stays alive.
    * Should be called when the renderer is no longer required.
    * @returns {void}
    */
   remove(): void {
     this._renderer.clear();
+    this._renderer.dispose();
     this._scene.remove();
     this._camera.remove();
   }
@@ -0,0 +1,581 @@
+import type { Object3D, Mesh } from 'three';
+import type { ThreeLoaderRegistry } from './ThreeLoaderRegistry';
+import type { ThreeTilesetJSON } from '../objects/ThreeTileset';
+import {
+  Group,
+  Matrix4,
+  Vector3,
+  InstancedMesh,
+  Points,
+  PointsMaterial,
+  BufferGeometry,
+  BufferAttribute,
+  Color,
+  LoaderUtils,
+} from 'three';
+import { getGLTFLoader } from './ThreeLoaderRegistry';
+import { eastNorthUpToEcefMatrix, ecefToLngLatAlt } from '../utils';
+
+
+/**
+ * Content of a tile: a renderable object, or an external tileset.
+ */
+export type TileContent = Object3D | ThreeTilesetJSON;
+
+
+/**
+ * Options of a tile content loader.
+ * - `gltfUpAxis`: up axis of glTF content, turned into the Z-up axis of tiles.
+ * - `pointSize`: size in pixels of the points of point clouds.
+ */
+export interface TileContentLoaderOptions {
+  gltfUpAxis: 'X' | 'Y' | 'Z';
+  pointSize: number;
+}
+
+
+/**
+ * JSON header of a feature table. Properties are given inline as arrays, or
+ * as references with a `byteOffset` into the binary body.
+ */
+interface FeatureTableJSON {
+  INSTANCES_LENGTH?: number;
+  POINTS_LENGTH?: number;
+  EAST_NORTH_UP?: boolean;
+  CONSTANT_RGBA?: [number, number, number, number];
+  extensions?: Record<string, unknown>;
+  [name: string]: unknown;
+}
+
+
+/**
+ * Feature table of a tile, with the body its binary properties point into.
+ */
+interface FeatureTable {
+  json: FeatureTableJSON;
+  buffer: ArrayBuffer;
+  binaryOffset: number;
+}
+
+
+type TypedArrayConstructor =
+    Float32ArrayConstructor
+  | Uint8ArrayConstructor
+  | Uint16ArrayConstructor
+  | Uint32ArrayConstructor;
+
+
+/**
+ * Rotations from the up axis of glTF content to the Z-up axis of 3D Tiles.
+ */
+const UP_AXIS_MATRICES = {
+  X: new Matrix4().makeRotationY(-Math.PI / 2),
+  Y: new Matrix4().makeRotationX(Math.PI / 2),
+  Z: new Matrix4(),
+};
+
+
+/**
+ * Largest value of quantized positions and oct-encoded normals.
+ */
+const QUANTIZED_RANGE = 65535;
+
+
+const textDecoder = new TextDecoder();
+const tempInstanceMatrix = new Matrix4();
+const tempMeshMatrix = new Matrix4();
+const tempRotationMatrix = new Matrix4();
+const tempScaleMatrix = new Matrix4();
+const tempPosition = new Vector3();
+const tempUp = new Vector3();
+const tempRight = new Vector3();
+const tempForward = new Vector3();
+const tempScale = new Vector3();
+
+
+/**
+ * Reads the feature table following the header of a tile.
+ * @param {ArrayBuffer} buffer - Tile data.
+ * @param {number} byteOffset - Start of the feature table.
+ * @param {number} jsonLength - Length of the JSON header in bytes.
+ * @returns {FeatureTable}
+ */
+function readFeatureTable(buffer: ArrayBuffer, byteOffset: number, jsonLength: number): FeatureTable {
+  const json = jsonLength
+    ? JSON.parse(textDecoder.decode(new Uint8Array(buffer, byteOffset, jsonLength)))
+    : {};
+
+  return { json, buffer, binaryOffset: byteOffset + jsonLength };
+}
+
+
+/**
+ * Reads a property of a feature table, given inline in its JSON header or as
+ * a reference into its binary body.
+ * @param {FeatureTable} featureTable - Feature table to read from.
+ * @param {string} name - Property name.
+ * @param {TypedArrayConstructor} ArrayType - Type of the components.
+ * @param {number} length - Number of components.
+ * @returns {ArrayLike<number>|undefined} Components, or `undefined` if the property is missing.
+ */
+function readFeatureProperty(
+  featureTable: FeatureTable,
+  name: string,
+  ArrayType: TypedArrayConstructor,
+  length: number
+): ArrayLike<number> | undefined {
+  const value = featureTable.json[name];
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  // Copied, since binary properties are not always aligned to their type.
+  const byteOffset = 'byteOffset' in value && typeof value.byteOffset === 'number' ? value.byteOffset : 0;
+  const start = featureTable.binaryOffset + byteOffset;
+  return new ArrayType(featureTable.buffer.slice(start, start + length * ArrayType.BYTES_PER_ELEMENT));
+}
+
+
+/**
+ * Decodes an oct-encoded unit vector.
+ * @param {number} x - First encoded component.
+ * @param {number} y - Second encoded component.
+ * @param {Vector3} target - Vector to write the result into.
+ * @returns {Vector3}
+ */
+function octDecode(x: number, y: number, target: Vector3): Vector3 {
+  let u = x / QUANTIZED_RANGE * 2 - 1;
+  let v = y / QUANTIZED_RANGE * 2 - 1;
+  const z = 1 - Math.abs(u) - Math.abs(v);
+
+  if (z < 0) {
+    const prevU = u;
+    u = (1 - Math.abs(v)) * (prevU >= 0 ? 1 : -1);
+    v = (1 - Math.abs(prevU)) * (v >= 0 ? 1 : -1);
+  }
+
+  return target.set(u, v, z).normalize();
+}
+
+
+/**
+ * Fetches and parses the content of 3D Tiles: batched models (`b3dm`),
+ * instanced models (`i3dm`), point clouds (`pnts`), composites (`cmpt`),
+ * glTF, and external tilesets. Renderable content is placed with a matrix
+ * from the tile's coordinates to the frame it is rendered in.
+ */
+export class TileContentLoader {
+  /**
+   * Registry providing request settings and the glTF loader.
+   * @type {ThreeLoaderRegistry}
+   * @private
+   */
+  _registry: ThreeLoaderRegistry;
+  /**
+   * Content settings of the tileset.
+   * @type {TileContentLoaderOptions}
+   * @private
+   */
+  _options: TileContentLoaderOptions;
+
+
+  /**
+   * Creates a tile content loader.
+   * @param {ThreeLoaderRegistry} registry - Registry providing request settings and the glTF loader.
+   * @param {TileContentLoaderOptions} options - Content settings of the tileset.
+   */
+  constructor(registry: ThreeLoaderRegistry, options: TileContentLoaderOptions) {
+    this._registry = registry;
+    this._options = options;
+  }
+
+
+  /**
+   * Resolves the URI of a tile or its content against the URL of the file
+   * referencing it. Query parameters of the base URL are passed on, as
+   * services send keys and sessions with them.
+   * @param {string} uri - URI to resolve.
+   * @param {string} baseUrl - URL of the referencing file.
+   * @returns {string} Absolute URL.
+   */
+  resolveUrl(uri: string, baseUrl: string): string {
+    const base = new URL(baseUrl, typeof location !== 'undefined' ? location.href : undefined);
+    const url = new URL(uri, base);
+
+    if (url.protocol === 'http:' || url.protocol === 'https:') {
+      base.searchParams.forEach((value, key) => {
+        url.searchParams.has(key) || url.searchParams.set(key, value);
+      });
+    }
+    return url.href;
+  }
+
+
+  /**
+   * Fetches a file with the request settings of the registry.
+   * @param {string} url - File URL.
+   * @param {AbortSignal} [signal] - Signal cancelling the request.
+   * @returns {Promise<ArrayBuffer>}
+   */
+  async fetch(url: string, signal?: AbortSignal): Promise<ArrayBuffer> {
+    const { requestHeader, withCredentials } = this._registry.getOptions();
+    const response = await fetch(this._registry._manager.resolveURL(url), {
+      headers: requestHeader,
+      credentials: withCredentials ? 'include' : 'same-origin',
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to load '${url}': ${response.status} ${response.statusText}`);
+    }
+    return response.arrayBuffer();
+  }
+
+
+  /**
+   * Fetches and parses a tileset JSON file.
+   * @param {string} url - Tileset URL.
+   * @param {AbortSignal} [signal] - Signal cancelling the request.
+   * @returns {Promise<ThreeTilesetJSON>}
+   */
+  async loadTileset(url: string, signal?: AbortSignal): Promise<ThreeTilesetJSON> {
+    const tileset = JSON.parse(textDecoder.decode(await this.fetch(url, signal)));
+    if (!tileset?.root) {
+      throw new Error(`'${url}' is not a 3D Tiles tileset`);
+    }
+    return tileset;
+  }
+
+
+  /**
+   * Fetches and parses the content of a tile.
+   * @param {string} url - Content URL.
+   * @param {Matrix4} matrix - Matrix from the tile's coordinates to the frame the content is rendered in.
+   * @param {AbortSignal} [signal] - Signal cancelling the requests.
+   * @returns {Promise<TileContent>}
+   */
+  async load(url: string, matrix: Matrix4, signal?: AbortSignal): Promise<TileContent> {
+    return this._parse(await this.fetch(url, signal), url, matrix, signal);
+  }
+
+
+  /**
+   * Parses tile content according to its magic number, or as JSON.
+   * @param {ArrayBuffer} buffer - Content data.
+   * @param {string} url - Content URL, resolving the files it references.
+   * @param {Matrix4} matrix - Matrix from the tile's coordinates to the render frame.
+   * @param {AbortSignal} [signal] - Signal cancelling further requests.
+   * @returns {Promise<TileContent>}
+   * @private
+   */
+  async _parse(buffer: ArrayBuffer, url: string, matrix: Matrix4, signal?: AbortSignal): Promise<TileContent> {
+    const magic = textDecoder.decode(new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength)));
+    switch (magic) {
+      case 'b3dm':
+        return this._parseB3DM(buffer, url, matrix);
+      case 'i3dm':
+        return this._parseI3DM(buffer, url, matrix, signal);
+      case 'pnts':
+        return this._parsePNTS(buffer, matrix);
+      case 'cmpt':
+        return this._parseCMPT(buffer, url, matrix, signal);
+      case 'glTF':
+        return this._parseGLTF(buffer, url, matrix);
+    }
+
+    const text = textDecoder.decode(buffer);
+    const json = JSON.parse(text);
+    return json.root ? json as ThreeTilesetJSON : this._parseGLTF(text, url, matrix);
+  }
+
+
+  /**
+   * Parses glTF content, placing it with its `CESIUM_RTC` center if any.
+   * @param {ArrayBuffer|string} data - Binary or JSON glTF.
+   * @param {string} url - Content URL, resolving external resources.
+   * @param {Matrix4} matrix - Matrix from the tile's coordinates to the render frame.
+   * @param {ArrayLike<number>} [rtcCenter] - Center the positions are relative to.
+   * @returns {Promise<Object3D>}
+   * @private
+   */
+  async _parseGLTF(data: ArrayBuffer | string, url: string, matrix: Matrix4, rtcCenter?: ArrayLike<number>): Promise<Object3D> {
+    const loader = await getGLTFLoader(this._registry);
+    const gltf = await loader.parseAsync(data, LoaderUtils.extractUrlBase(url));
+    const center = rtcCenter ?? gltf.parser.json.extensions?.CESIUM_RTC?.center;
+
+    const scene = gltf.scene;
+    scene.matrixAutoUpdate = false;
+    scene.matrix
+      .copy(matrix)
+      .multiply(tempMeshMatrix.makeTranslation(center?.[0] ?? 0, center?.[1] ?? 0, center?.[2] ?? 0))
+      .multiply(UP_AXIS_MATRICES[this._options.gltfUpAxis]);
+    return scene;
+  }
+
+
+  /**
+   * Parses a batched 3D model: a glTF model with a feature table.
+   * @param {ArrayBuffer} buffer - Content data.
+   * @param {string} url - Content URL.
+   * @param {Matrix4} matrix - Matrix from the tile's coordinates to the render frame.
+   * @returns {Promise<Object3D>}
+   * @private
+   */
+  async _parseB3DM(buffer: ArrayBuffer, url: string, matrix: Matrix4): Promise<Object3D> {
+    const view = new DataView(buffer);
+    const byteLength = view.getUint32(8, true);
+    const featureTableJSONLength = view.getUint32(12, true);
+    const featureTableBinaryLength = view.getUint32(16, true);
+    const batchTableLength = view.getUint32(20, true) + view.getUint32(24, true);
+
+    const featureTable = readFeatureTable(buffer, 28, featureTableJSONLength);
+    const glbStart = 28 + featureTableJSONLength + featureTableBinaryLength + batchTableLength;
+
+    return this._parseGLTF(
+      buffer.slice(glbStart, byteLength),
+      url,
+      matrix,
+      readFeatureProperty(featureTable, 'RTC_CENTER', Float32Array, 3)
+    );
+  }
+
+
+  /**
+   * Parses an instanced 3D model into one instanced mesh per mesh of its
+   * glTF model. Instance matrices are computed in double precision relative
+   * to the render frame, so they stay precise in single precision.
+   * @param {ArrayBuffer} buffer - Content data.
+   * @param {string} url - Content URL.
+   * @param {Matrix4} matrix - Matrix from the tile's coordinates to the render frame.
+   * @param {AbortSignal} [signal] - Signal cancelling the request of an external glTF.
+   * @returns {Promise<Object3D>}
+   * @private
+   */
+  async _parseI3DM(buffer: ArrayBuffer, url: string, matrix: Matrix4, signal?: AbortSignal): Promise<Object3D> {
+    const view = new DataView(buffer);
+    const byteLength = view.getUint32(8, true);
+    const featureTableJSONLength = view.getUint32(12, true);
+    const featureTableBinaryLength = view.getUint32(16, true);
+    const batchTableLength = view.getUint32(20, true) + view.getUint32(24, true);
+    const gltfFormat = view.getUint32(28, true);
+
+    const featureTable = readFeatureTable(buffer, 32, featureTableJSONLength);
+    const gltfStart = 32 + featureTableJSONLength + featureTableBinaryLength + batchTableLength;
+    const gltfData = buffer.slice(gltfStart, byteLength);
+
+    let gltfUrl = url;
+    let glb = gltfData;
+    if (gltfFormat === 0) {
+      // The model is referenced by a URI, padded with spaces or zeros.
+      gltfUrl = this.resolveUrl(textDecoder.decode(gltfData).replace(/[\s\0]+$/, ''), url);
+      glb = await this.fetch(gltfUrl, signal);
+    }
+
+    const model = await this._parseGLTF(glb, gltfUrl, new Matrix4());
+    model.updateMatrixWorld(true);
+
+    const { json } = featureTable;
+    const count = json.INSTANCES_LENGTH;
+    if (typeof count !== 'number') {
+      throw new Error('Instanced model has no INSTANCES_LENGTH');
+    }
+    const rtcCenter = readFeatureProperty(featureTable, 'RTC_CENTER', Float32Array, 3);
+    const quantizedOffset = readFeatureProperty(featureTable, 'QUANTIZED_VOLUME_OFFSET', Float32Array, 3);
+    const quantizedScale = readFeatureProperty(featureTable, 'QUANTIZED_VOLUME_SCALE', Float32Array, 3);
+    const positions = readFeatureProperty(featureTable, 'POSITION', Float32Array, count * 3);
+    const quantizedPositions = readFeatureProperty(featureTable, 'POSITION_QUANTIZED', Uint16Array, count * 3);
+    const ups = readFeatureProperty(featureTable, 'NORMAL_UP', Float32Array, count * 3);
+    const rights = readFeatureProperty(featureTable, 'NORMAL_RIGHT', Float32Array, count * 3);
+    const octUps = readFeatureProperty(featureTable, 'NORMAL_UP_OCT32P', Uint16Array, count * 2);
+    const octRights = readFeatureProperty(featureTable, 'NORMAL_RIGHT_OCT32P', Uint16Array, count * 2);
+    const scales = readFeatureProperty(featureTable, 'SCALE', Float32Array, count);
+    const nonUniformScales = readFeatureProperty(featureTable, 'SCALE_NON_UNIFORM', Float32Array, count * 3);
+
+    const instanceMatrices: Matrix4[] = [];
+    for (let i = 0; i < count; i++) {
+      if (positions) {
+        tempPosition.fromArray(positions, i * 3);
+      } else if (quantizedPositions && quantizedOffset && quantizedScale) {
+        tempPosition.set(
+          quantizedOffset[0] + quantizedPositions[i * 3] / QUANTIZED_RANGE * quantizedScale[0],
+          quantizedOffset[1] + quantizedPositions[i * 3 + 1] / QUANTIZED_RANGE * quantizedScale[1],
+          quantizedOffset[2] + quantizedPositions[i * 3 + 2] / QUANTIZED_RANGE * quantizedScale[2]
+        );
+      } else {
+        throw new Error(`Instanced model '${url}' has no positions`);
+      }
+      if (rtcCenter) {
+        tempPosition.x += rtcCenter[0];
+        tempPosition.y += rtcCenter[1];
+        tempPosition.z += rtcCenter[2];
+      }
+
+      // Instances turn the model's right, up, and forward axes.
+      if (ups && rights) {
+        tempUp.fromArray(ups, i * 3);
+        tempRight.fromArray(rights, i * 3);
+        tempRotationMatrix.makeBasis(tempRight, tempUp, tempForward.crossVectors(tempRight, tempUp));
+      } else if (octUps && octRights) {
+        octDecode(octUps[i * 2], octUps[i * 2 + 1], tempUp);
+        octDecode(octRights[i * 2], octRights[i * 2 + 1], tempRight);
+        tempRotationMatrix.makeBasis(tempRight, tempUp, tempForward.crossVectors(tempRight, tempUp));
+      } else if (json.EAST_NORTH_UP) {
+        const { lng, lat } = ecefToLngLatAlt(tempPosition);
+        eastNorthUpToEcefMatrix(lng, lat, 0, tempRotationMatrix).setPosition(0, 0, 0);
+      } else {
+        tempRotationMatrix.identity();
+      }
+
+      if (nonUniformScales) {
+        tempScale.fromArray(nonUniformScales, i * 3);
+      } else {
+        tempScale.setScalar(scales?.[i] ?? 1);
+      }
+
+      instanceMatrices.push(new Matrix4()
+        .copy(matrix)
+        .multiply(tempInstanceMatrix.makeTranslation(tempPosition.x, tempPosition.y, tempPosition.z))
+        .multiply(tempRotationMatrix)
+        .multiply(tempScaleMatrix.makeScale(tempScale.x, tempScale.y, tempScale.z)));
+    }
+
+    const group = new Group();
+    group.matrixAutoUpdate = false;
+    model.traverse(child => {
+      const mesh = child as Mesh;
+      if (!mesh.isMesh) {
+        return;
+      }
+
+      // `model.matrixWorld` already holds the up axis rotation.
+      const instancedMesh = new InstancedMesh(mesh.geometry, mesh.material, count);
+      instancedMesh.name = mesh.name;
+      instancedMesh.frustumCulled = false;
+      instanceMatrices.forEach((instanceMatrix, i) => {
+        instancedMesh.setMatrixAt(i, tempMeshMatrix.multiplyMatrices(instanceMatrix, mesh.matrixWorld));
+      });
+      group.add(instancedMesh);
+    });
+    return group;
+  }
+
+
+  /**
+   * Parses a point cloud with its colors. Quantized positions are kept
+   * relative to their volume, which is moved into the matrix of the points.
+   * @param {ArrayBuffer} buffer - Content data.
+   * @param {Matrix4} matrix - Matrix from the tile's coordinates to the render frame.
+   * @returns {Object3D}
+   * @private
+   */
+  _parsePNTS(buffer: ArrayBuffer, matrix: Matrix4): Object3D {
+    const view = new DataView(buffer);
+    const featureTable = readFeatureTable(buffer, 28, view.getUint32(12, true));
+    const { json } = featureTable;
+    if (json.extensions?.['3DTILES_draco_point_compression']) {
+      throw new Error('Draco-compressed point clouds are not supported');
+    }
+
+    const count = json.POINTS_LENGTH;
+    if (typeof count !== 'number') {
+      throw new Error('Point cloud has no POINTS_LENGTH');
+    }
+    const rtcCenter = readFeatureProperty(featureTable, 'RTC_CENTER', Float32Array, 3);
+    const geometry = new BufferGeometry();
+    const offset = new Vector3();
+
+    const positions = readFeatureProperty(featureTable, 'POSITION', Float32Array, count * 3);
+    const quantizedPositions = readFeatureProperty(featureTable, 'POSITION_QUANTIZED', Uint16Array, count * 3);
+    if (positions) {
+      geometry.setAttribute('position', new BufferAttribute(positions as Float32Array, 3));
+    } else if (quantizedPositions) {
+      const quantizedOffset = readFeatureProperty(featureTable, 'QUANTIZED_VOLUME_OFFSET', Float32Array, 3);
+      const quantizedScale = readFeatureProperty(featureTable, 'QUANTIZED_VOLUME_SCALE', Float32Array, 3);
+      if (!quantizedOffset || !quantizedScale) {
+        throw new Error('Quantized point cloud has no QUANTIZED_VOLUME_OFFSET or QUANTIZED_VOLUME_SCALE');
+      }
+      const array = new Float32Array(count * 3);
+      for (let i = 0; i < array.length; i++) {
+        array[i] = quantizedPositions[i] / QUANTIZED_RANGE * quantizedScale[i % 3];
+      }
+      geometry.setAttribute('position', new BufferAttribute(array, 3));
+      offset.fromArray(quantizedOffset);
+    } else {
+      throw new Error('Point cloud has no positions');
+    }
+
+    const material = new PointsMaterial({
+      size: this._options.pointSize,
+      sizeAttenuation: false,
+    });
+
+    const rgba = readFeatureProperty(featureTable, 'RGBA', Uint8Array, count * 4);
+    const rgb = readFeatureProperty(featureTable, 'RGB', Uint8Array, count * 3);
+    const rgb565 = readFeatureProperty(featureTable, 'RGB565', Uint16Array, count);
+    if (rgba) {
+      geometry.setAttribute('color', new BufferAttribute(rgba as Uint8Array, 4, true));
+      material.vertexColors = true;
+      material.transparent = true;
+    } else if (rgb) {
+      geometry.setAttribute('color', new BufferAttribute(rgb as Uint8Array, 3, true));
+      material.vertexColors = true;
+    } else if (rgb565) {
+      const array = new Uint8Array(count * 3);
+      for (let i = 0; i < count; i++) {
+        const color = rgb565[i];
+        array[i * 3] = (color >> 11) / 31 * 255;
+        array[i * 3 + 1] = (color >> 5 & 63) / 63 * 255;
+        array[i * 3 + 2] = (color & 31) / 31 * 255;
+      }
+      geometry.setAttribute('color', new BufferAttribute(array, 3, true));
+      material.vertexColors = true;
+    } else if (json.CONSTANT_RGBA) {
+      const [r, g, b, a] = json.CONSTANT_RGBA;
+      material.color = new Color(r / 255, g / 255, b / 255);
+      material.opacity = a / 255;
+      material.transparent = a < 255;
+    }
+
+    if (rtcCenter) {
+      offset.x += rtcCenter[0];
+      offset.y += rtcCenter[1];
+      offset.z += rtcCenter[2];
+    }
+
+    const points = new Points(geometry, material);
+    points.frustumCulled = false;
+    points.matrixAutoUpdate = false;
+    points.matrix.copy(matrix).multiply(tempMeshMatrix.makeTranslation(offset.x, offset.y, offset.z));
+    return points;
+  }
+
+
+  /**
+   * Parses a composite of tiles of any format.
+   * @param {ArrayBuffer} buffer - Content data.
+   * @param {string} url - Content URL.
+   * @param {Matrix4} matrix - Matrix from the tile's coordinates to the render frame.
+   * @param {AbortSignal} [signal] - Signal cancelling further requests.
+   * @returns {Promise<Object3D>}
+   * @private
+   */
+  async _parseCMPT(buffer: ArrayBuffer, url: string, matrix: Matrix4, signal?: AbortSignal): Promise<Object3D> {
+    const view = new DataView(buffer);
+    const tilesLength = view.getUint32(12, true);
+
+    const group = new Group();
+    let byteOffset = 16;
+    for (let i = 0; i < tilesLength; i++) {
+      const byteLength = view.getUint32(byteOffset + 8, true);
+      const content = await this._parse(buffer.slice(byteOffset, byteOffset + byteLength), url, matrix, signal);
+      (content as Object3D).isObject3D && group.add(content as Object3D);
+      byteOffset += byteLength;
+    }
+    return group;
+  }
+
+
+}
@@ -1,3 +1,6 @@
+import { DEG_TO_RAD, EARTH_RADIUS } from '../configs';
+
+
 /**
  * Represents any value that can be converted into a LngLatAlt instance.
  * Accepts:
@@ -100,6 +103,22 @@ export class LngLatAlt {
   }
 
 
+  /**
+   * Returns the distance in meters to another coordinate, combining the
+   * great-circle distance at sea level with the altitude difference.
+   * @param {LngLatAlt} other - Coordinate to measure the distance to.
+   * @returns {number} Distance in meters.
+   */
+  distanceTo(other: LngLatAlt): number {
+    const lat1 = this.lat * DEG_TO_RAD;
+    const lat2 = other.lat * DEG_TO_RAD;
+    const a = Math.sin((lat2 - lat1) / 2) ** 2 +
+      Math.cos(lat1) * Math.cos(lat2) * Math.sin(((other.lng - this.lng) * DEG_TO_RAD) / 2) ** 2;
+    const ground = 2 * EARTH_RADIUS * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    return Math.hypot(ground, other.alt - this.alt);
+  }
+
+
   /**
    * Converts the coordinate into a `[lng, lat, alt]` tuple.
    * @returns {[number, number, number]} A tuple representation of the coordinate.
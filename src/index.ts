@@ -1,4 +1,10 @@
 export * from './layers/ThreeLayer';
 export * from './objects/ThreeModel';
+export * from './objects/ThreeInstancedModel';
+export * from './objects/ThreeInstance';
+export * from './objects/ThreePathPlayback';
 export * from './objects/ThreeLight';
+export * from './objects/ThreeTileset';
+export * from './core/ThreeLoaderRegistry';
+export * from './core/ThreeAssetCache';
 export * from './geometries/LngLatAlt';
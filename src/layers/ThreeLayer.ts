@@ -1,17 +1,42 @@
-import type { Map, LngLat } from 'maplibre-gl';
-import type { ThreeModel } from '../objects/ThreeModel';
+import type { Map, LngLat, CameraOptions, CustomRenderMethodInput, MapSourceDataEvent, StyleSpecification } from 'maplibre-gl';
+import type { Feature, FeatureCollection, Point, Polygon, MultiPolygon } from 'geojson';
+import type { ThreeModelOptions, ThreeModelScale, ThreeModelRotation, ThreeModelTransitionProperty } from '../objects/ThreeModel';
+import { ThreeModel } from '../objects/ThreeModel';
+import { ThreeInstance } from '../objects/ThreeInstance';
+import { ThreeInstancedModel } from '../objects/ThreeInstancedModel';
 import { ThreeLight } from '../objects/ThreeLight';
-import { LngLatAlt } from '../geometries/LngLatAlt';
-import { Scene, Group, Raycaster, Vector2 } from 'three';
+import { ThreeTileset } from '../objects/ThreeTileset';
+import { LngLatAlt, LngLatAltLike } from '../geometries/LngLatAlt';
+import type { Object3D, Intersection, InstancedMesh, Material, Light } from 'three';
+import { Scene, Group, Raycaster, Vector2, Vector3, Vector4, Sphere, Matrix4, Matrix3 } from 'three';
 import { CameraAdapter } from '../core/CameraAdapter';
 import { ThreeRenderer } from '../core/ThreeRenderer';
-import { WORLD_SIZE } from '../configs';
+import { SpatialIndex, MercatorExtent } from '../core/SpatialIndex';
+import { ShadowManager } from '../core/ShadowManager';
+import { EnvironmentManager } from '../core/EnvironmentManager';
+import { ThreeLoaders } from '../core/ThreeLoaderRegistry';
+import { WORLD_SIZE, MAX_VALID_LATITUDE, EARTH_CIRCUMFERENCE, DEG_TO_RAD } from '../configs';
+import {
+  compileFeatureValue,
+  loadFeatureExpressions,
+  FeatureValue,
+  Point2,
+  convexHull,
+  polygonsIntersect,
+  polygonContains,
+  mercatorXFromLng,
+  mercatorYFromLat,
+  lngFromMercatorX,
+  latFromMercatorY,
+  clamp,
+  estimateMemory,
+} from '../utils';
 
 
 /**
  * Alias for a Three.js object managed by ThreeLayer.
  */
-export type ThreeObject = ThreeModel;
+export type ThreeObject = ThreeModel | ThreeInstancedModel;
 
 
 /**
@@ -19,11 +44,23 @@ export type ThreeObject = ThreeModel;
  */
 export type ThreeEventType =
     'click'
+  | 'dblclick'
+  | 'contextmenu'
+  | 'mousedown'
+  | 'mouseup'
   | 'mouseover'
   | 'mouseenter'
   | 'mouseleave'
+  | 'touchstart'
+  | 'touchend'
+  | 'wheel'
   | 'addobject'
   | 'removeobject'
+  | 'load'
+  | 'progress'
+  | 'error'
+  | 'transitionend'
+  | 'lodchange'
   | 'addlight'
   | 'removelight';
 
@@ -35,7 +72,15 @@ export type ThreeEvents = Record<ThreeEventType, Set<(args: ThreeEventArgs) => v
 
 
 /**
- * Event argument structure passed to ThreeLayer event callbacks.
+ * Event argument structure passed to ThreeLayer and ThreeModel event callbacks.
+ * Pointer events also carry the original DOM event and allow listeners to:
+ * - `preventDefault`: stop MapLibre's own handling, e.g. double-click zoom.
+ * - `stopPropagation`: stop the event from bubbling from the object to the layer.
+ * `transitionend` events carry the `property` whose transition finished.
+ * `progress` events carry the bytes `loaded` and, when known, the `total` bytes
+ * of a model's download, and `error` events carry the `error` a load failed with.
+ * `lodchange` events carry the `lod` shown, as an index of the model's `lods`,
+ * or `null` for the model's own content.
  */
 export interface ThreeEventArgs {
   type: ThreeEventType;
@@ -44,12 +89,58 @@ export interface ThreeEventArgs {
   point?: {
     x: number;
     y: number;
-  }
+  };
+  originalEvent?: Event;
+  hit?: ThreeRenderedObject;
+  preventDefault?: () => void;
+  stopPropagation?: () => void;
+  property?: ThreeModelTransitionProperty;
+  loaded?: number;
+  total?: number;
+  error?: unknown;
+  lod?: number | null;
+}
+
+
+/**
+ * Object hit by `ThreeLayer.queryRenderedObjects`.
+ * - `layerId`: id of the ThreeLayer the object belongs to.
+ * - `target`: the hit instance for instanced models, otherwise the object.
+ * - `object`: the hit ThreeObject.
+ * - `instanceIndex`: index of the hit instance, for instanced models.
+ * - `lngLatAlt`: exact position of the hit.
+ * - `normal`: face normal at the hit in east-north-up axes, if available.
+ * - `meshName` / `materialName`: names of the hit sub-mesh and its material.
+ * - `distance`: distance from the camera, used for sorting.
+ */
+export interface ThreeRenderedObject {
+  layerId: string;
+  target: ThreeObject | ThreeInstance;
+  object: ThreeObject;
+  instanceIndex?: number;
+  lngLatAlt: LngLatAlt;
+  normal: Vector3 | null;
+  meshName: string;
+  materialName: string;
+  distance: number;
+}
+
+
+/**
+ * Options for `ThreeLayer.queryRenderedObjects`.
+ * - `layers`: ids of the ThreeLayers on the map to query. Defaults to this layer.
+ * - `filter`: predicate a hit must satisfy to be returned.
+ * - `limit`: maximum number of hits to return.
+ */
+export interface ThreeQueryOptions {
+  layers?: string[];
+  filter?: (hit: ThreeRenderedObject) => boolean;
+  limit?: number;
 }
 
 
 /**
- * Internal structure representing a MapLibre mouse event.
+ * Internal structure representing a MapLibre mouse or touch event.
  */
 interface MapMouseEventArgs {
   type: string;
@@ -58,10 +149,169 @@ interface MapMouseEventArgs {
   point: {
     x: number;
     y: number;
-  }
+  };
+  originalEvent: MouseEvent | TouchEvent;
+  preventDefault(): void;
+}
+
+
+/**
+ * Internal structure representing a MapLibre wheel event.
+ */
+interface MapWheelEventArgs {
+  type: string;
+  target: any;
+  originalEvent: WheelEvent;
+  preventDefault(): void;
+}
+
+
+/**
+ * MapLibre pointer events forwarded to objects under the pointer.
+ */
+const POINTER_EVENT_TYPES = [
+  'click',
+  'dblclick',
+  'contextmenu',
+  'mousedown',
+  'mouseup',
+  'touchstart',
+  'touchend',
+  'wheel',
+] as const;
+
+
+/**
+ * A value resolved for each feature passed to `ThreeLayer.setData`.
+ * Can be a constant, a property accessor, or a MapLibre-style expression.
+ */
+export type ThreeDataValue<T> = FeatureValue<T>;
+
+
+/**
+ * Model created for each feature passed to `ThreeLayer.setData`.
+ * A string is treated as a model URL, loaded as FBX when it ends with `.fbx`
+ * and as GLTF otherwise.
+ */
+export type ThreeDataModel = string | ThreeModelOptions;
+
+
+/**
+ * Options describing how `ThreeLayer.setData` turns Point features into models.
+ * - `model`: model to place at each feature.
+ * - `scale`: uniform scale or per-axis scale.
+ * - `rotation`: Z rotation in degrees keeping the model's X and Y rotation, or per-axis rotation.
+ * - `altitude`: altitude in meters, overriding the feature's third coordinate.
+ * - `promoteId`: feature property used as the feature id when `feature.id` is missing.
+ */
+export interface ThreeDataOptions {
+  model: ThreeDataValue<ThreeDataModel>;
+  scale?: ThreeDataValue<number | ThreeModelScale>;
+  rotation?: ThreeDataValue<number | ThreeModelRotation>;
+  altitude?: ThreeDataValue<number>;
+  promoteId?: string;
+}
+
+
+/**
+ * Internal record of a model created by `ThreeLayer.setData`.
+ */
+interface ThreeDataEntry {
+  object: ThreeModel;
+  modelKey: string;
+}
+
+
+/**
+ * Camera mode of `ThreeLayer.followObject`.
+ * - 'center': keeps the object at the map center, leaving zoom, pitch, and bearing to the user.
+ * - 'chase': looks at the object from behind, along its heading.
+ * - 'first-person': looks along the object's heading from its position.
+ */
+export type ThreeFollowMode = 'center' | 'chase' | 'first-person';
+
+
+/**
+ * Options for `ThreeLayer.followObject`.
+ * - `mode`: camera mode. Defaults to 'center'.
+ * - `distance`: distance in meters from the chase camera to the object. Defaults to `200`.
+ * - `pitch`: camera pitch in degrees in 'chase' and 'first-person' modes. Defaults to `60`.
+ * - `bearing`: offset in degrees added to the object's heading. Defaults to `0`.
+ * - `height`: height in meters of the first-person camera above the object. Defaults to `2`.
+ * - `duration`: duration in milliseconds of the transition onto the object. Defaults to `0`.
+ */
+export interface ThreeFollowOptions {
+  mode?: ThreeFollowMode;
+  distance?: number;
+  pitch?: number;
+  bearing?: number;
+  height?: number;
+  duration?: number;
+}
+
+
+/**
+ * Internal structure representing a MapLibre camera event that may come from user interaction.
+ */
+interface MapCameraEventArgs {
+  type: string;
+  originalEvent?: Event;
+}
+
+
+/**
+ * Shadow settings of a ThreeLayer.
+ * - `mapSize`: resolution in pixels of each light's shadow map. Defaults to `2048`.
+ * - `opacity`: opacity of the shadows cast onto the ground. Defaults to `0.4`.
+ */
+export interface ThreeShadowOptions {
+  mapSize?: number;
+  opacity?: number;
+}
+
+
+/**
+ * GPU memory used by a ThreeLayer, returned by `ThreeLayer.getMemoryInfo`.
+ * - `geometries` / `textures`: geometries and textures held by the renderer.
+ * - `programs`: shader programs compiled by the renderer.
+ * - `geometryBytes` / `textureBytes`: estimated size in bytes of the buffers
+ *   and textures of the layer's objects, lights, and environment, counting
+ *   shared ones once.
+ */
+export interface ThreeMemoryInfo {
+  geometries: number;
+  textures: number;
+  programs: number;
+  geometryBytes: number;
+  textureBytes: number;
+}
+
+
+/**
+ * Environment lighting physical materials from every direction, with reflections.
+ * - `source`: `'room'` for a generated room, the URL of an equirectangular
+ *   `.hdr`, `.exr` or regular image, or the URLs of the six faces of a cube
+ *   map in the order +x, -x, +y, -y, +z, -z.
+ * - `intensity`: strength of the environment lighting. Defaults to `1`.
+ * - `rotation`: rotation in degrees clockwise around the vertical axis. Defaults to `0`.
+ *
+ * `intensity` and `rotation` need three.js r163 or later. With older versions,
+ * setting them fires an `error` event on the layer once, and they are ignored.
+ */
+export interface ThreeEnvironmentOptions {
+  source: string | string[];
+  intensity?: number;
+  rotation?: number;
 }
 
 
+/**
+ * Picks the environment for a map style, or `null` for none. Called whenever
+ * a style loads, so the environment switches along with the style.
+ */
+export type ThreeEnvironmentFunction = (style: StyleSpecification) => ThreeEnvironmentOptions | null;
+
+
 /**
  * Options for initializing a ThreeLayer instance.
  */
@@ -71,9 +321,68 @@ export interface ThreeLayerOptions {
   maxzoom?: number;
   renderOutsideBounds?: boolean;
   defaultLight?: boolean;
+  styleLight?: boolean;
+  shadows?: boolean | ThreeShadowOptions;
+  environment?: ThreeEnvironmentOptions | ThreeEnvironmentFunction | null;
+}
+
+
+/**
+ * Options for the region queries of ThreeLayer, such as
+ * `queryRenderedObjectsInBox` and `queryObjectsInPolygon`.
+ * - `layers`: ids of the ThreeLayers on the map to query. Defaults to this layer.
+ * - `filter`: predicate an object or instance must satisfy to be returned.
+ */
+export interface ThreeRegionQueryOptions {
+  layers?: string[];
+  filter?: (target: ThreeObject | ThreeInstance) => boolean;
 }
 
 
+/**
+ * Screen position returned by `ThreeLayer.project`.
+ * - `x` / `y`: position in canvas pixels.
+ * - `depth`: normalized depth in [0, 1], from the near to the far plane.
+ * - `visible`: whether the position is inside the view and, on the globe,
+ *   on the side facing the camera.
+ */
+export interface ThreeProjectedPoint {
+  x: number;
+  y: number;
+  depth: number;
+  visible: boolean;
+}
+
+
+/**
+ * Polygon used by `ThreeLayer.queryObjectsInPolygon`.
+ */
+export type ThreeQueryPolygon = Polygon | MultiPolygon | Feature<Polygon | MultiPolygon>;
+
+
+/**
+ * Extent of the whole world in normalized Mercator space.
+ */
+const WORLD_EXTENT: MercatorExtent = [0, 0, 1, 1];
+
+
+const tempBoundingSphere = new Sphere();
+const tempObjectMatrix = new Matrix4();
+const tempHitMatrix = new Matrix4();
+const tempHitInstanceMatrix = new Matrix4();
+const tempHitLocalMatrix = new Matrix4();
+const tempHitNormalMatrix = new Matrix3();
+const tempHitScale = new Vector3();
+const tempHitOrigin = new Vector3();
+const flipYMatrix = new Matrix4().makeRotationZ(Math.PI);
+const tempFootprintMatrix = new Matrix4();
+const tempViewProjectionMatrix = new Matrix4();
+const tempCorner = new Vector4();
+const tempProjectedPoint = new Vector4();
+const tempScenePosition = new Vector3();
+const tempCameraPosition = new Vector3();
+
+
 /**
  * Custom layer for rendering Three.js objects on a MapLibre map.
  * Handles event management, object visibility, and camera synchronization.
@@ -134,6 +443,31 @@ export class ThreeLayer {
    * @private
    */
   _lights: Record<number, ThreeLight> = {};
+  /**
+   * 3D Tiles tilesets streamed into the world, keyed by their unique ID.
+   * @type {Record<number, ThreeTileset>}
+   * @private
+   */
+  _tilesets: Record<number, ThreeTileset> = {};
+  /**
+   * Models created by `setData`, keyed by feature id.
+   * @type {Record<string, ThreeDataEntry>}
+   * @private
+   */
+  _dataEntries: Record<string, ThreeDataEntry> = {};
+  /**
+   * Options of the latest `setData` call, reused when options are omitted.
+   * @type {ThreeDataOptions|undefined}
+   * @private
+   */
+  _dataOptions?: ThreeDataOptions;
+  /**
+   * Number of `setData` calls, so data waiting for expressions to load is
+   * dropped once newer data is set.
+   * @type {number}
+   * @private
+   */
+  _dataVersion: number = 0;
   /**
    * Canvas element used for rendering the Three.js scene.
    * @type {HTMLCanvasElement|undefined}
@@ -153,17 +487,103 @@ export class ThreeLayer {
    */
   _threeRenderer?: ThreeRenderer;
   /**
-   * Tracks the last object interacted with for mouse events.
-   * @type {ThreeObject|null}
+   * Shadow manager fitting shadow cameras to the view, while shadows are enabled.
+   * @type {ShadowManager|undefined}
+   * @private
+   */
+  _shadowManager?: ShadowManager;
+  /**
+   * Shadow settings, or `null` while shadows are disabled.
+   * @type {ThreeShadowOptions|null}
+   * @private
+   */
+  _shadowOptions: ThreeShadowOptions | null = null;
+  /**
+   * Environment manager prefiltering environment maps, while an environment is set.
+   * @type {EnvironmentManager|undefined}
    * @private
    */
-  _prevMouseEventThreeObject: ThreeObject | null = null;
+  _environmentManager?: EnvironmentManager;
+  /**
+   * Environment settings, a function picking them for each style, or `null` for none.
+   * @type {ThreeEnvironmentOptions|ThreeEnvironmentFunction|null}
+   * @private
+   */
+  _environment: ThreeEnvironmentOptions | ThreeEnvironmentFunction | null = null;
+  /**
+   * Tracks the last object or instance interacted with for mouse events.
+   * @type {ThreeObject|ThreeInstance|null}
+   * @private
+   */
+  _prevMouseEventThreeObject: ThreeObject | ThreeInstance | null = null;
   /**
    * Whether objects outside map bounds should still be rendered.
    * @type {boolean}
    * @private
    */
   _renderOutsideBounds: boolean;
+  /**
+   * Whether terrain-relative objects need to be re-clamped on the next frame,
+   * e.g. after terrain tiles loaded or the terrain exaggeration changed.
+   * @type {boolean}
+   * @private
+   */
+  _terrainChanged: boolean = true;
+  /**
+   * Spatial index of object extents used for bounds culling.
+   * @type {SpatialIndex<ThreeObject>}
+   * @private
+   */
+  _spatialIndex: SpatialIndex<ThreeObject> = new SpatialIndex();
+  /**
+   * Objects currently attached to the world.
+   * @type {Set<ThreeObject>}
+   * @private
+   */
+  _visibleObjects: Set<ThreeObject> = new Set();
+  /**
+   * Objects whose extent changed and must be re-indexed on the next frame.
+   * @type {Set<ThreeObject>}
+   * @private
+   */
+  _dirtyObjects: Set<ThreeObject> = new Set();
+  /**
+   * Whether object visibility must be re-evaluated on the next frame.
+   * @type {boolean}
+   * @private
+   */
+  _visibilityChanged: boolean = true;
+  /**
+   * Objects with a running animation.
+   * @type {Set<ThreeObject>}
+   * @private
+   */
+  _animatedObjects: Set<ThreeObject> = new Set();
+  /**
+   * Time of the last animation update in milliseconds, while animations run.
+   * @type {number|undefined}
+   * @private
+   */
+  _lastAnimationTime?: number;
+  /**
+   * Object the map camera follows.
+   * @type {ThreeObject|undefined}
+   * @private
+   */
+  _followedObject?: ThreeObject;
+  /**
+   * Options of the object following.
+   * @type {ThreeFollowOptions}
+   * @private
+   */
+  _followOptions: ThreeFollowOptions = {};
+  /**
+   * Position and heading of the followed object the camera was last moved to,
+   * as `[lng, lat, alt, heading]`.
+   * @type {number[]|undefined}
+   * @private
+   */
+  _followState?: number[];
   /**
    * Collection of registered event listeners.
    * @type {ThreeEvents}
@@ -171,11 +591,23 @@ export class ThreeLayer {
    */
   _events: ThreeEvents = {
     click: new Set(),
+    dblclick: new Set(),
+    contextmenu: new Set(),
+    mousedown: new Set(),
+    mouseup: new Set(),
     mouseover: new Set(),
     mouseenter: new Set(),
     mouseleave: new Set(),
+    touchstart: new Set(),
+    touchend: new Set(),
+    wheel: new Set(),
     addobject: new Set(),
     removeobject: new Set(),
+    load: new Set(),
+    progress: new Set(),
+    error: new Set(),
+    transitionend: new Set(),
+    lodchange: new Set(),
     addlight: new Set(),
     removelight: new Set(),
   }
@@ -190,13 +622,21 @@ export class ThreeLayer {
     this.minzoom = options.minzoom ?? 0;
     this.maxzoom = options.maxzoom ?? 24;
     this._renderOutsideBounds = options.renderOutsideBounds ?? true;
+    this._shadowOptions = options.shadows === true ? {} : options.shadows || null;
+    this._environment = options.environment ?? null;
 
     this._world = new Group();
     this._world.name = 'ThreeWorld';
     this._world.position.set(WORLD_SIZE / 2, WORLD_SIZE / 2, 0);
     this._world.matrixAutoUpdate = false;
 
-    if (options.defaultLight ?? true) {
+    if (options.styleLight) {
+      const styleLight = new ThreeLight({
+        type: 'style',
+        castShadow: true,
+      });
+      this._addLight(styleLight);
+    } else if (options.defaultLight ?? true) {
       const defaultLight = new ThreeLight({
         type: 'default'
       });
@@ -230,25 +670,60 @@ export class ThreeLayer {
       this._scene,
       this._cameraAdapter.camera
     );
+    this._updateShadows();
+    this._updateEnvironment();
+    ThreeLoaders._setRenderer(this._threeRenderer._renderer);
 
     this._map.on('move', this._mapOnMove);
-    this._map.on('click', this._mapOnClick);
     this._map.on('mousemove', this._mapOnMouseMove);
+    POINTER_EVENT_TYPES.forEach(type => this._map!.on(type, this._mapOnPointerEvent));
+    this._map.on('terrain', this._mapOnTerrain);
+    this._map.on('sourcedata', this._mapOnSourceData);
+    this._map.on('styledata', this._mapOnStyleData);
+    this._map.on('style.load', this._mapOnStyleLoad);
+    this._mapOnStyleData();
+
+    this._terrainChanged = true;
+    this._visibilityChanged = true;
   }
 
 
   /**
    * Called when the layer is removed from the map.
-   * Cleans up event listeners, renderer, and objects.
+   * Cleans up event listeners, destroys the objects and tilesets, releasing
+   * their assets, and disposes the shadow maps of the lights and the renderer.
    * @returns {void}
    */
   onRemove(): void {
+    this.stopFollowing();
     this._map?.off('move', this._mapOnMove);
-    this._map?.off('click', this._mapOnClick);
     this._map?.off('mousemove', this._mapOnMouseMove);
+    POINTER_EVENT_TYPES.forEach(type => this._map?.off(type, this._mapOnPointerEvent));
+    this._map?.off('terrain', this._mapOnTerrain);
+    this._map?.off('sourcedata', this._mapOnSourceData);
+    this._map?.off('styledata', this._mapOnStyleData);
+    this._map?.off('style.load', this._mapOnStyleLoad);
     this._cameraAdapter?.remove();
+    this._shadowManager?.remove();
+    this._shadowManager = undefined;
+    this._environmentManager?.remove();
+    this._environmentManager = undefined;
+    Object.values(this._objects).forEach(object => object.destroy());
+    Object.values(this._tilesets).forEach(tileset => tileset.destroy());
+    Object.values(this._lights).forEach(light => light._light.traverse(object => {
+      (object as Light).isLight && (object as Light).dispose();
+    }));
     this._threeRenderer?.remove();
+    this._threeRenderer = undefined;
     this._objects = {};
+    this._tilesets = {};
+    this._dataEntries = {};
+    this._dataVersion++;
+    this._spatialIndex.clear();
+    this._visibleObjects.clear();
+    this._dirtyObjects.clear();
+    this._animatedObjects.clear();
+    this._lastAnimationTime = undefined;
     this._world.remove();
     this._scene.remove();
   }
@@ -256,9 +731,51 @@ export class ThreeLayer {
 
   /**
    * Executes a render pass for this layer.
+   * Re-clamps terrain-relative objects when the terrain changed, detects the
+   * active map projection, re-places objects on the globe while it is rendered,
+   * updates object visibility at most once per frame, and picks the levels of
+   * detail of visible objects.
+   * @param {WebGLRenderingContext|WebGL2RenderingContext} gl - MapLibre's WebGL context.
+   * @param {CustomRenderMethodInput} options - Per-frame rendering parameters from MapLibre.
    * @returns {void}
    */
-  render(): void {
+  render(gl: WebGLRenderingContext | WebGL2RenderingContext, options: CustomRenderMethodInput): void {
+    this._updateSpatialIndex();
+
+    if (this._terrainChanged) {
+      this._terrainChanged = false;
+      this._visibilityChanged = true;
+      Object.values(this._objects).forEach(this._updateObjectTerrain);
+    }
+
+    if (this._cameraAdapter && options?.defaultProjectionData) {
+      const projectionChanged = this._cameraAdapter.updateProjectionData(options.defaultProjectionData);
+      if (projectionChanged || this._cameraAdapter.projection === 'globe') {
+        this._visibilityChanged = true;
+        Object.values(this._objects).forEach(this._updateObjectProjection);
+      }
+    }
+
+    if (this._visibilityChanged) {
+      this._visibilityChanged = false;
+      this._updateVisibility();
+    }
+    this._updateLODs();
+
+    this._updateAnimations();
+    if (this._cameraAdapter) {
+      Object.values(this._lights).forEach(light => light._update(this._cameraAdapter!));
+      Object.values(this._tilesets).forEach(tileset => tileset._update(this._cameraAdapter!));
+    }
+
+    if (this._shadowManager && this._cameraAdapter) {
+      this._shadowManager.update(
+        this._cameraAdapter,
+        Object.values(this._lights).map(light => light._light)
+      );
+    }
+
+    this._environmentManager?.update();
     this._threeRenderer?.render();
   }
 
@@ -297,159 +814,1332 @@ export class ThreeLayer {
 
 
   /**
-   * Returns the topmost ThreeObject at a given canvas coordinate.
-   * @param {[number, number]} point - Canvas [x, y] coordinates.
-   * @returns {ThreeObject | null} The intersected object or null.
+   * Enables, disables, or configures shadows. Objects cast and receive shadows
+   * according to their `castShadow` and `receiveShadow` settings, from
+   * directional lights created with `castShadow`, onto a transparent ground
+   * plane at the elevation of the map center.
+   * @param {boolean|ThreeShadowOptions} shadows - `false` to disable shadows, otherwise the shadow settings.
+   * @returns {void}
    */
-  queryRenderObject([x, y]: [number, number]): ThreeObject | null {
-    if (!this._canvas || !this._cameraAdapter?.camera) {
-      return null;
-    }
-
-    const canvasRect = this._canvas.getBoundingClientRect();
-    const raycaster = new Raycaster();
-    const mouse = new Vector2();
-
-    /**
-     *    ----- y: 1  -----
-     *    |               |
-     *  x: -1           x: 1
-     *    |               |
-     *    ----- y: -1 -----
-     *
-     * top:    y =  1
-     * bottom: y = -1
-     * left:   x = -1
-     * right:  x =  1
-     */
-    mouse.x = (x / canvasRect.width) * 2 - 1;
-    mouse.y = -(y / canvasRect.height) * 2 + 1;
-
-    raycaster.setFromCamera(mouse, this._cameraAdapter.camera);
-    const intersects = raycaster.intersectObjects(
-      this._world.children,
-      true,
-    );
-
-    if (intersects.length) {
-      let object = intersects[0].object;
-      let isFound = false;
-      while (!isFound) {
-        if (object.name && object.name.startsWith('Three')) {
-          isFound = true;
-        } else if (object.parent && object.parent.name !== 'ThreeWorld') {
-          object = object.parent;
-        } else {
-          isFound = true;
-        }
-      }
-      return this._objects[object.id];
-    }
-
-    return null;
+  setShadows(shadows: boolean | ThreeShadowOptions): void {
+    this._shadowOptions = shadows === true ? {} : shadows || null;
+    this._updateShadows();
+    this._map?.triggerRepaint();
   }
 
 
   /**
-   * Adds a ThreeObject to the world and registers it internally.
-   * @param {ThreeObject} threeObject
+   * Sets, changes, or removes the environment lighting physical materials.
+   * Changing only the intensity or rotation keeps the loaded environment.
+   * @param {ThreeEnvironmentOptions|ThreeEnvironmentFunction|null} environment - Environment settings, a function picking them for each style, or `null` to remove the environment.
    * @returns {void}
-   * @private
    */
-  _addObject(threeObject: ThreeObject): void {
-    this._world.add(threeObject._object);
-    this._objects[threeObject._id] = threeObject;
+  setEnvironment(environment: ThreeEnvironmentOptions | ThreeEnvironmentFunction | null): void {
+    this._environment = environment;
+    this._updateEnvironment();
+    this._map?.triggerRepaint();
   }
 
 
   /**
-   * Removes a ThreeObject from the world and unregisters it internally.
-   * @param {ThreeObject} threeObject
-   * @returns {void}
-   * @private
+   * Reports the GPU memory used by the layer, to track down leaks. Renderer
+   * counts are zero while the layer is not on a map.
+   * @returns {ThreeMemoryInfo}
    */
-  _removeObject(threeObject: ThreeObject): void {
-    this._world.remove(threeObject._object);
-    delete this._objects[threeObject._id];
+  getMemoryInfo(): ThreeMemoryInfo {
+    const info = this._threeRenderer?._renderer.info;
+    const { geometryBytes, textureBytes } = estimateMemory([
+      this._scene,
+      // Objects outside the view and cached tiles are detached from the scene.
+      ...Object.values(this._objects).map(object => object._object),
+      ...Object.values(this._tilesets).flatMap(tileset => tileset._getLoadedObjects()),
+    ]);
+
+    return {
+      geometries: info?.memory.geometries ?? 0,
+      textures: info?.memory.textures ?? 0,
+      programs: info?.programs?.length ?? 0,
+      geometryBytes,
+      textureBytes,
+    };
   }
 
 
   /**
-   * Adds a ThreeLight to the world and registers it internally.
-   * @param {ThreeLight} threeLight
-   * @returns {void}
-   * @private
+   * Projects a geographic position, including its altitude, to canvas pixels.
+   * @param {LngLatAltLike} lngLatAlt - Position with altitude in meters above sea level.
+   * @returns {ThreeProjectedPoint} Screen position. Not visible while the layer is not on a map.
    */
-  _addLight(threeLight: ThreeLight): void {
-    this._world.add(threeLight._light);
-    this._lights[threeLight._id] = threeLight;
+  project(lngLatAlt: LngLatAltLike): ThreeProjectedPoint {
+    if (!this._map || !this._cameraAdapter) {
+      return { x: NaN, y: NaN, depth: NaN, visible: false };
+    }
+
+    const { lng, lat, alt } = LngLatAlt.convert(lngLatAlt);
+    const { width, height } = this._map.transform;
+
+    this._cameraAdapter.lngLatAltToScenePosition(lng, lat, alt, tempScenePosition);
+    tempProjectedPoint
+      .set(tempScenePosition.x, tempScenePosition.y, tempScenePosition.z, 1)
+      .applyMatrix4(this._cameraAdapter.getViewProjectionMatrix(tempViewProjectionMatrix));
+
+    const { w } = tempProjectedPoint;
+    const x = tempProjectedPoint.x / w;
+    const y = tempProjectedPoint.y / w;
+    const z = tempProjectedPoint.z / w;
+
+    return {
+      x: (x + 1) / 2 * width,
+      y: (1 - y) / 2 * height,
+      depth: (z + 1) / 2,
+      visible: w > 0 &&
+        Math.abs(x) <= 1 && Math.abs(y) <= 1 && Math.abs(z) <= 1 &&
+        this._cameraAdapter.isOnVisibleHemisphere(lng, lat, alt),
+    };
   }
 
 
   /**
-   * Removes a ThreeLight from the world and unregisters it internally.
-   * @param {ThreeLight} threeLight
-   * @returns {void}
-   * @private
+   * Converts canvas pixels to the geographic position at a given altitude
+   * under that point.
+   * @param {[number, number]|{x: number, y: number}} point - Position in canvas pixels.
+   * @param {number} [altitude] - Altitude in meters above sea level. Defaults to
+   * the ground, including terrain.
+   * @returns {LngLatAlt|null} Position, or `null` if the point does not reach the
+   * given altitude, e.g. above the horizon.
    */
-  _removeLight(threeLight: ThreeLight): void {
-    this._world.remove(threeLight._light);
-    delete this._lights[threeLight._id];
+  unproject(point: [number, number] | { x: number; y: number }, altitude?: number): LngLatAlt | null {
+    if (!this._map || !this._cameraAdapter) {
+      return null;
+    }
+
+    const [x, y] = Array.isArray(point) ? point : [point.x, point.y];
+
+    if (altitude === undefined && this._map.getTerrain()) {
+      const lngLat = this._map.unproject([x, y]);
+      return new LngLatAlt(lngLat.lng, lngLat.lat, this._map.queryTerrainElevation(lngLat) ?? 0);
+    }
+
+    const { width, height } = this._map.transform;
+    const raycaster = this._cameraAdapter.setRaycaster(
+      new Raycaster(),
+      new Vector2((x / width) * 2 - 1, -(y / height) * 2 + 1)
+    );
+
+    return this._cameraAdapter.intersectAltitude(raycaster.ray, altitude ?? 0);
   }
 
 
   /**
-   * Updates visibility of a ThreeObject based on map bounds and zoom level.
-   * @param {ThreeObject} object
-   * @returns {void}
-   * @private
+   * Makes the map camera follow an object of this layer on every frame, replacing
+   * any object followed before. The camera is moved with `jumpTo` whenever the
+   * object moves or turns, after an optional `easeTo` onto it. Following stops
+   * when the user drags, rotates, or pitches the map, or the object is removed.
+   * @param {ThreeObject} object - Object to follow.
+   * @param {ThreeFollowOptions} [options] - Camera mode and placement.
+   * @returns {this}
    */
-  _updateObjectVisibility = (object: ThreeObject): void => {
-    const bounds = this._map!.getBounds();
-    const zoom = this._map!.getZoom();
-    const { lng, lat } = object._lngLatAlt!;
+  followObject(object: ThreeObject, options: ThreeFollowOptions = {}): this {
+    this.stopFollowing();
 
-    const inBounds = this._renderOutsideBounds || bounds.contains([lng, lat]);
-    const inZoomRange = this.minzoom <= zoom && zoom <= this.maxzoom;
+    if (!this._map || this._objects[object._id] !== object) {
+      return this;
+    }
+
+    this._followedObject = object;
+    this._followOptions = options;
 
-    if (inBounds && inZoomRange) {
-      this._world.add(object._object);
+    this._map.on('render', this._mapOnRender);
+    this._map.on('dragstart', this._mapOnCameraStart);
+    this._map.on('rotatestart', this._mapOnCameraStart);
+    this._map.on('pitchstart', this._mapOnCameraStart);
+
+    const camera = this._getFollowCamera();
+    if (camera && options.duration) {
+      this._map.easeTo({ ...camera, duration: options.duration });
     } else {
-      this._world.remove(object._object);
+      this._updateFollowCamera();
     }
+
+    return this;
   }
 
 
   /**
-   * Handler for MapLibre 'move' event to update object visibility.
-   * @returns {void}
-   * @private
+   * Stops the map camera from following an object.
+   * @returns {this}
    */
-  _mapOnMove = (): void => {
-    if (this.minzoom === 0 && this.maxzoom === 24 && this._renderOutsideBounds) return;
-    Object.values(this._objects).forEach(this._updateObjectVisibility);
+  stopFollowing(): this {
+    this._map?.off('render', this._mapOnRender);
+    this._map?.off('dragstart', this._mapOnCameraStart);
+    this._map?.off('rotatestart', this._mapOnCameraStart);
+    this._map?.off('pitchstart', this._mapOnCameraStart);
+    this._followedObject = undefined;
+    this._followOptions = {};
+    this._followState = undefined;
+    return this;
   }
 
 
   /**
-   * Handler for MapLibre 'click' event. Fires 'click' event for intersected object.
-   * @param {MapMouseEventArgs} event
-   * @returns {void}
-   * @private
+   * Returns the object the map camera follows, if any.
+   * @returns {ThreeObject|undefined}
    */
-  _mapOnClick = (event: MapMouseEventArgs): void => {
-    const threeObject = this.queryRenderObject([
-      event.point.x,
-      event.point.y,
-    ]);
+  getFollowedObject(): ThreeObject | undefined {
+    return this._followedObject;
+  }
 
-    if (threeObject) {
-      this.fire('click', {
-        type: 'click',
-        lngLatAlt: LngLatAlt.convert(threeObject._lngLatAlt!),
-        point: event.point,
-        target: threeObject,
+
+  /**
+   * Places a model at every Point feature of a GeoJSON object.
+   * Calling it again diffs by feature id: new features are added, existing
+   * ones are updated, and features that are no longer present are removed.
+   * Feature properties are exposed on each model's `properties`.
+   * The models are placed at once, unless expressions are used for the first
+   * time and the style specification evaluating them has to load.
+   * @param {FeatureCollection|Feature} data - GeoJSON data with Point features.
+   * @param {ThreeDataOptions} [options] - How features become models. Defaults to the previous options.
+   * @returns {Promise<void>} Promise resolved once the models are placed.
+   * @throws {Error} When no options were ever provided.
+   */
+  setData(data: FeatureCollection | Feature, options?: ThreeDataOptions): Promise<void> {
+    if (options) {
+      this._dataOptions = options;
+    }
+
+    if (!this._dataOptions) {
+      throw new Error('`ThreeLayer.setData` requires options with a `model` on its first call');
+    }
+
+    const dataOptions = this._dataOptions;
+    const { model, scale, rotation, altitude } = dataOptions;
+    const version = ++this._dataVersion;
+    const loading = loadFeatureExpressions([model, scale, rotation, altitude]);
+    if (!loading) {
+      this._applyData(data, dataOptions);
+      return Promise.resolve();
+    }
+
+    return loading.then(() => {
+      if (version === this._dataVersion) {
+        this._applyData(data, dataOptions);
+      }
+    });
+  }
+
+
+  /**
+   * Places a model at every Point feature, diffing by feature id with the
+   * models of the previous data.
+   * @param {FeatureCollection|Feature} data - GeoJSON data with Point features.
+   * @param {ThreeDataOptions} dataOptions - How features become models.
+   * @returns {void}
+   * @private
+   */
+  _applyData(data: FeatureCollection | Feature, dataOptions: ThreeDataOptions): void {
+    const { promoteId } = dataOptions;
+    const getModel = compileFeatureValue(dataOptions.model);
+    const getScale = compileFeatureValue(dataOptions.scale);
+    const getRotation = compileFeatureValue(dataOptions.rotation);
+    const getAltitude = compileFeatureValue(dataOptions.altitude);
+
+    const zoom = this._map?.getZoom() ?? 0;
+    const features = data.type === 'FeatureCollection' ? data.features : [data];
+    const prevEntries = this._dataEntries;
+    this._dataEntries = {};
+
+    features.forEach((feature, index) => {
+      if (feature.geometry?.type !== 'Point') {
+        return;
+      }
+
+      const id = feature.id ?? (promoteId ? feature.properties?.[promoteId] : undefined) ?? index;
+      const key = String(id);
+      const model = getModel(feature, zoom);
+      if (!model) {
+        return;
+      }
+
+      const modelOptions: ThreeModelOptions = typeof model === 'string'
+        ? { url: model, type: ThreeLoaders.getTypeFromUrl(model) ?? 'gltf' }
+        : model;
+      const modelKey = modelOptions.type === 'mesh'
+        ? `mesh:${modelOptions.mesh.uuid}`
+        : `${modelOptions.type}:${modelOptions.url}`;
+
+      const [lng, lat, alt] = (feature.geometry as Point).coordinates;
+      const lngLatAlt: [number, number, number] = [lng, lat, getAltitude(feature, zoom) ?? alt ?? 0];
+
+      const scale = getScale(feature, zoom);
+      const { x: sx, y: sy, z: sz } = typeof scale === 'number'
+        ? { x: scale, y: scale, z: scale }
+        : scale ?? modelOptions.scale ?? { x: 1, y: 1, z: 1 };
+
+      const rotation = getRotation(feature, zoom);
+      const baseRotation = modelOptions.rotation ?? { x: 0, y: 0, z: 0 };
+      const { x: rx, y: ry, z: rz } = typeof rotation === 'number'
+        ? { ...baseRotation, z: rotation }
+        : rotation ?? baseRotation;
+
+      // A feature repeating an id replaces the one before it.
+      let entry: ThreeDataEntry | undefined = this._dataEntries[key] ?? prevEntries[key];
+      delete prevEntries[key];
+
+      if (entry && entry.modelKey !== modelKey) {
+        entry.object.destroy();
+        entry = undefined;
+      }
+
+      if (!entry) {
+        // Each model gets its own copy of the template meshes, sharing their
+        // geometries and materials, which stay the caller's to dispose.
+        const lods = modelOptions.lods?.map(lod => 'mesh' in lod ? { ...lod, mesh: lod.mesh.clone() } : lod);
+        const object = new ThreeModel(modelOptions.type === 'mesh'
+          ? { ...modelOptions, mesh: modelOptions.mesh.clone(), lods }
+          : { ...modelOptions, lods });
+        object._sharedResources = true;
+        entry = { object, modelKey };
+      }
+
+      const { object } = entry;
+      object.featureId = id;
+      object.properties = { ...feature.properties };
+      object.setLngLatAlt(lngLatAlt);
+      object.setScale(sx, sy, sz);
+      object.setRotation(rx, ry, rz);
+
+      if (!object._layer) {
+        object.addTo(this);
+      }
+
+      this._dataEntries[key] = entry;
+    });
+
+    Object.values(prevEntries).forEach(entry => entry.object.destroy());
+  }
+
+
+  /**
+   * Returns every object rendered at a given canvas coordinate, sorted by
+   * distance from the camera. Each object or instance is returned once, with
+   * its closest hit.
+   * @param {[number, number]} point - Canvas [x, y] coordinates.
+   * @param {ThreeQueryOptions} [options] - Layers to query, filter, and limit.
+   * @returns {ThreeRenderedObject[]} Hits, closest first.
+   */
+  queryRenderedObjects(point: [number, number], options: ThreeQueryOptions = {}): ThreeRenderedObject[] {
+    if (!this._map) {
+      return [];
+    }
+
+    const hits: ThreeRenderedObject[] = [];
+    this._getQueryLayers(options.layers).forEach(layer => {
+      hits.push(...layer._raycast(point));
+    });
+
+    hits.sort((a, b) => a.distance - b.distance);
+
+    const filtered = options.filter ? hits.filter(options.filter) : hits;
+    return options.limit !== undefined ? filtered.slice(0, options.limit) : filtered;
+  }
+
+
+  /**
+   * Returns the topmost ThreeObject at a given canvas coordinate.
+   * For a ThreeInstancedModel, the intersected ThreeInstance is returned.
+   * @param {[number, number]} point - Canvas [x, y] coordinates.
+   * @returns {ThreeObject | ThreeInstance | null} The intersected object, instance, or null.
+   */
+  queryRenderObject(point: [number, number]): ThreeObject | ThreeInstance | null {
+    return this.queryRenderedObjects(point, { limit: 1 })[0]?.target ?? null;
+  }
+
+
+  /**
+   * Returns every rendered object or instance whose projected geometry
+   * overlaps a screen box, e.g. for shift-drag box selection.
+   * @param {[[number, number], [number, number]]} box - Two opposite corners in canvas pixels.
+   * @param {ThreeRegionQueryOptions} [options] - Layers to query and filter.
+   * @returns {(ThreeObject|ThreeInstance)[]}
+   */
+  queryRenderedObjectsInBox(
+    [[x1, y1], [x2, y2]]: [[number, number], [number, number]],
+    options?: ThreeRegionQueryOptions
+  ): (ThreeObject | ThreeInstance)[] {
+    return this.queryRenderedObjectsInPolygon([
+      [x1, y1],
+      [x2, y1],
+      [x2, y2],
+      [x1, y2],
+    ], options);
+  }
+
+
+  /**
+   * Returns every rendered object or instance whose projected geometry
+   * overlaps a screen polygon, e.g. for lasso selection.
+   * @param {[number, number][]} polygon - Polygon vertices in canvas pixels.
+   * @param {ThreeRegionQueryOptions} [options] - Layers to query and filter.
+   * @returns {(ThreeObject|ThreeInstance)[]}
+   */
+  queryRenderedObjectsInPolygon(
+    polygon: [number, number][],
+    options: ThreeRegionQueryOptions = {}
+  ): (ThreeObject | ThreeInstance)[] {
+    const targets: (ThreeObject | ThreeInstance)[] = [];
+    this._getQueryLayers(options.layers).forEach(layer => {
+      targets.push(...layer._queryScreenPolygon(polygon));
+    });
+
+    return options.filter ? targets.filter(options.filter) : targets;
+  }
+
+
+  /**
+   * Returns every object or instance whose ground footprint overlaps a
+   * geographic polygon, whether it is currently rendered or not.
+   * Footprints entirely inside a hole of the polygon are excluded.
+   * @param {ThreeQueryPolygon} polygon - GeoJSON Polygon or MultiPolygon, or a Feature of one.
+   * @param {ThreeRegionQueryOptions} [options] - Layers to query and filter.
+   * @returns {(ThreeObject|ThreeInstance)[]}
+   */
+  queryObjectsInPolygon(
+    polygon: ThreeQueryPolygon,
+    options: ThreeRegionQueryOptions = {}
+  ): (ThreeObject | ThreeInstance)[] {
+    const geometry = polygon.type === 'Feature' ? polygon.geometry : polygon;
+    const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+
+    const mercatorPolygons = polygons.map(rings => rings.map(ring => ring.map(([lng, lat]): Point2 => [
+      mercatorXFromLng(lng),
+      mercatorYFromLat(clamp(lat, -MAX_VALID_LATITUDE, MAX_VALID_LATITUDE)),
+    ])));
+
+    const targets: (ThreeObject | ThreeInstance)[] = [];
+    this._getQueryLayers(options.layers).forEach(layer => {
+      targets.push(...layer._queryMercatorPolygons(mercatorPolygons));
+    });
+
+    return options.filter ? targets.filter(options.filter) : targets;
+  }
+
+
+  /**
+   * Resolves the ThreeLayers a query runs on.
+   * @param {string[]} [layerIds] - Ids of ThreeLayers on the map. Defaults to this layer.
+   * @returns {ThreeLayer[]}
+   * @private
+   */
+  _getQueryLayers(layerIds: string[] = [this.id]): ThreeLayer[] {
+    const layers: ThreeLayer[] = [];
+    layerIds.forEach(id => {
+      const layer = id === this.id
+        ? this
+        : (this._map?.getLayer(id) as { implementation?: unknown } | undefined)?.implementation;
+
+      if (layer instanceof ThreeLayer) {
+        layers.push(layer);
+      }
+    });
+    return layers;
+  }
+
+
+  /**
+   * Collects rendered objects or instances whose screen footprint overlaps a polygon.
+   * @param {Point2[]} polygon - Polygon vertices in canvas pixels.
+   * @returns {(ThreeObject|ThreeInstance)[]}
+   * @private
+   */
+  _queryScreenPolygon(polygon: Point2[]): (ThreeObject | ThreeInstance)[] {
+    if (!this._canvas || !this._cameraAdapter) {
+      return [];
+    }
+
+    const { width, height } = this._canvas.getBoundingClientRect();
+    const { camera } = this._cameraAdapter;
+    tempViewProjectionMatrix.multiplyMatrices(
+      camera.projectionMatrix,
+      tempObjectMatrix.copy(camera.matrixWorld).invert()
+    );
+
+    const targets: (ThreeObject | ThreeInstance)[] = [];
+    this._visibleObjects.forEach(object => {
+      if (!object._object.visible || object._localBox.isEmpty()) {
+        return;
+      }
+
+      if (object._object.matrixAutoUpdate) {
+        object._object.updateMatrix();
+      }
+
+      tempObjectMatrix
+        .multiplyMatrices(this._world.matrix, object._object.matrix)
+        .premultiply(tempViewProjectionMatrix);
+
+      object._forEachTarget((target, matrix) => {
+        tempFootprintMatrix.multiplyMatrices(tempObjectMatrix, matrix);
+
+        const points: Point2[] = [];
+        this._forEachBoxCorner(object, tempFootprintMatrix, ({ x, y, w }) => {
+          // Corners behind the camera have no meaningful screen position.
+          if (w > 0) {
+            points.push([(x / w + 1) / 2 * width, (1 - y / w) / 2 * height]);
+          }
+        });
+
+        if (polygonsIntersect(convexHull(points), polygon)) {
+          targets.push(target);
+        }
+      });
+    });
+
+    return targets;
+  }
+
+
+  /**
+   * Collects objects or instances whose ground footprint overlaps polygons
+   * given in normalized Mercator space.
+   * @param {Point2[][][]} polygons - Polygons, each an outer ring followed by holes.
+   * @returns {(ThreeObject|ThreeInstance)[]}
+   * @private
+   */
+  _queryMercatorPolygons(polygons: Point2[][][]): (ThreeObject | ThreeInstance)[] {
+    this._updateSpatialIndex();
+
+    const extent: MercatorExtent = [Infinity, Infinity, -Infinity, -Infinity];
+    polygons.forEach(([outer]) => outer?.forEach(([x, y]) => {
+      extent[0] = Math.min(extent[0], x);
+      extent[1] = Math.min(extent[1], y);
+      extent[2] = Math.max(extent[2], x);
+      extent[3] = Math.max(extent[3], y);
+    }));
+
+    if (extent[0] > extent[2]) {
+      return [];
+    }
+
+    const targets: (ThreeObject | ThreeInstance)[] = [];
+    this._spatialIndex.search(extent).forEach(object => {
+      if (!object._lngLatAlt || object._localBox.isEmpty()) {
+        return;
+      }
+
+      // Mercator placement of the object, regardless of the active projection.
+      tempObjectMatrix.compose(object._object.position, object._object.quaternion, object._object.scale);
+
+      object._forEachTarget((target, matrix) => {
+        tempFootprintMatrix.multiplyMatrices(tempObjectMatrix, matrix);
+
+        // World-local axes point west and south, centered on the map origin.
+        const points: Point2[] = [];
+        this._forEachBoxCorner(object, tempFootprintMatrix, ({ x, y }) => {
+          points.push([0.5 - x / WORLD_SIZE, 0.5 + y / WORLD_SIZE]);
+        });
+
+        const footprint = convexHull(points);
+        const overlaps = polygons.some(([outer, ...holes]) =>
+          outer &&
+          polygonsIntersect(footprint, outer) &&
+          !holes.some(hole => polygonContains(hole, footprint))
+        );
+
+        if (overlaps) {
+          targets.push(target);
+        }
+      });
+    });
+
+    return targets;
+  }
+
+
+  /**
+   * Calls a function with each corner of an object's bounding box transformed by a matrix.
+   * @param {ThreeObject} object - Object whose bounding box is used.
+   * @param {Matrix4} matrix - Matrix applied to the corners.
+   * @param {(corner: Vector4) => void} callback
+   * @returns {void}
+   * @private
+   */
+  _forEachBoxCorner(object: ThreeObject, matrix: Matrix4, callback: (corner: Vector4) => void): void {
+    const { min, max } = object._localBox;
+    for (let i = 0; i < 8; i++) {
+      tempCorner
+        .set(i & 1 ? max.x : min.x, i & 2 ? max.y : min.y, i & 4 ? max.z : min.z, 1)
+        .applyMatrix4(matrix);
+      callback(tempCorner);
+    }
+  }
+
+
+  /**
+   * Re-indexes objects whose extent changed since the last update.
+   * @returns {void}
+   * @private
+   */
+  _updateSpatialIndex(): void {
+    if (this._dirtyObjects.size) {
+      this._dirtyObjects.forEach(object => this._spatialIndex.insert(object, object._getMercatorExtent()));
+      this._dirtyObjects.clear();
+    }
+  }
+
+
+  /**
+   * Casts a ray through a canvas coordinate and returns the closest hit of
+   * each intersected object or instance, closest first.
+   * @param {[number, number]} point - Canvas [x, y] coordinates.
+   * @returns {ThreeRenderedObject[]}
+   * @private
+   */
+  _raycast([x, y]: [number, number]): ThreeRenderedObject[] {
+    if (!this._canvas || !this._cameraAdapter) {
+      return [];
+    }
+
+    const canvasRect = this._canvas.getBoundingClientRect();
+    const raycaster = new Raycaster();
+    const mouse = new Vector2();
+
+    /**
+     *    ----- y: 1  -----
+     *    |               |
+     *  x: -1           x: 1
+     *    |               |
+     *    ----- y: -1 -----
+     *
+     * top:    y =  1
+     * bottom: y = -1
+     * left:   x = -1
+     * right:  x =  1
+     */
+    mouse.x = (x / canvasRect.width) * 2 - 1;
+    mouse.y = -(y / canvasRect.height) * 2 + 1;
+
+    this._cameraAdapter.setRaycaster(raycaster, mouse);
+    const intersects = raycaster.intersectObjects(
+      this._world.children,
+      true,
+    );
+
+    const hits: ThreeRenderedObject[] = [];
+    const hitTargets = new Set<ThreeObject | ThreeInstance>();
+
+    intersects.forEach(intersection => {
+      const threeObject = this._getIntersectedObject(intersection.object);
+      if (!threeObject) {
+        return;
+      }
+
+      const { instanceId } = intersection;
+      const instance = threeObject instanceof ThreeInstancedModel && instanceId !== undefined
+        ? threeObject.getInstance(instanceId)
+        : undefined;
+
+      const target = instance ?? threeObject;
+      if (hitTargets.has(target)) {
+        return;
+      }
+      hitTargets.add(target);
+
+      const { material } = intersection.object as Object3D & { material?: Material | Material[] };
+      const hitMaterial = Array.isArray(material) ? material[intersection.face?.materialIndex ?? 0] : material;
+
+      hits.push({
+        layerId: this.id,
+        target,
+        object: threeObject,
+        instanceIndex: instance ? instanceId : undefined,
+        lngLatAlt: this._cameraAdapter!.scenePositionToLngLatAlt(intersection.point),
+        normal: this._getHitNormal(threeObject, intersection),
+        meshName: intersection.object.name,
+        materialName: hitMaterial?.name ?? '',
+        distance: intersection.distance,
       });
+    });
+
+    return hits;
+  }
+
+
+  /**
+   * Finds the ThreeObject an intersected Three.js object belongs to.
+   * Hidden objects, such as models on the far side of the globe, are skipped.
+   * @param {Object3D} object - Intersected Three.js object.
+   * @returns {ThreeObject|undefined}
+   * @private
+   */
+  _getIntersectedObject(object: Object3D): ThreeObject | undefined {
+    let root = object;
+    while (root.parent && root.parent !== this._world) {
+      if (!root.visible) {
+        return undefined;
+      }
+      root = root.parent;
+    }
+
+    return root.visible && root.parent === this._world ? this._objects[root.id] : undefined;
+  }
+
+
+  /**
+   * Computes the face normal of a hit in east-north-up axes.
+   * @param {ThreeObject} threeObject - Object that was hit.
+   * @param {Intersection} intersection - Raycast intersection.
+   * @returns {Vector3|null} Unit normal, or `null` if the hit has no face.
+   * @private
+   */
+  _getHitNormal(threeObject: ThreeObject, intersection: Intersection): Vector3 | null {
+    if (!intersection.face) {
+      return null;
+    }
+
+    // Transform of the hit mesh relative to the object, including the instance.
+    tempHitMatrix
+      .copy(threeObject._object.matrixWorld)
+      .invert()
+      .multiply(intersection.object.matrixWorld);
+
+    const mesh = intersection.object as InstancedMesh;
+    if (mesh.isInstancedMesh && intersection.instanceId !== undefined) {
+      mesh.getMatrixAt(intersection.instanceId, tempHitInstanceMatrix);
+      tempHitMatrix.multiply(tempHitInstanceMatrix);
+    }
+
+    // Local axes of the mercator world are flipped around Z (see CameraAdapter).
+    const { x, y, z } = threeObject._scale;
+    tempHitLocalMatrix
+      .compose(tempHitOrigin, threeObject._object.quaternion, tempHitScale.set(x, y, z))
+      .premultiply(flipYMatrix);
+    tempHitMatrix.premultiply(tempHitLocalMatrix);
+
+    return intersection.face.normal
+      .clone()
+      .applyNormalMatrix(tempHitNormalMatrix.getNormalMatrix(tempHitMatrix));
+  }
+
+
+  /**
+   * Fires an event on the object it targets, then bubbles it up to the layer
+   * unless a listener of the object stopped its propagation.
+   * @param {ThreeObject|ThreeInstance} target - Object or instance the event targets.
+   * @param {ThreeEventArgs} args - Event arguments.
+   * @returns {void}
+   * @private
+   */
+  _fireObjectEvent(target: ThreeObject | ThreeInstance, args: ThreeEventArgs): void {
+    let propagationStopped = false;
+    args.stopPropagation = () => {
+      propagationStopped = true;
+    };
+
+    const threeObject = target instanceof ThreeInstance ? target._model : target;
+    threeObject?.fire(args.type, args);
+
+    if (!propagationStopped) {
+      this.fire(args.type, args);
+    }
+  }
+
+
+  /**
+   * Fires a pointer event for an object or instance under the pointer.
+   * @param {ThreeEventType} type - Event type.
+   * @param {ThreeObject|ThreeInstance} target - Object or instance under the pointer.
+   * @param {{x: number, y: number}} point - Pointer position in pixels.
+   * @param {MapMouseEventArgs|MapWheelEventArgs} event - Originating MapLibre event.
+   * @param {ThreeRenderedObject} [hit] - Hit under the pointer. Without it, the
+   * object's anchor is reported as the event position.
+   * @returns {void}
+   * @private
+   */
+  _firePointerEvent(
+    type: ThreeEventType,
+    target: ThreeObject | ThreeInstance,
+    point: { x: number; y: number },
+    event: MapMouseEventArgs | MapWheelEventArgs,
+    hit?: ThreeRenderedObject
+  ): void {
+    this._fireObjectEvent(target, {
+      type,
+      lngLatAlt: hit?.lngLatAlt ?? LngLatAlt.convert(target._lngLatAlt!),
+      point,
+      target,
+      originalEvent: event.originalEvent,
+      hit,
+      preventDefault: () => event.preventDefault(),
+    });
+  }
+
+
+  /**
+   * Checks whether the layer or any of its objects listens to an event type.
+   * @param {ThreeEventType} type - Event type.
+   * @returns {boolean}
+   * @private
+   */
+  _hasListeners(type: ThreeEventType): boolean {
+    return this._events[type].size > 0 ||
+      Object.values(this._objects).some(object => object._events[type]?.size);
+  }
+
+
+  /**
+   * Adds a ThreeObject to the world and registers it internally.
+   * @param {ThreeObject} threeObject
+   * @returns {void}
+   * @private
+   */
+  _addObject(threeObject: ThreeObject): void {
+    this._world.add(threeObject._object);
+    this._objects[threeObject._id] = threeObject;
+    this._visibleObjects.add(threeObject);
+    this._invalidateObject(threeObject);
+  }
+
+
+  /**
+   * Removes a ThreeObject from the world and unregisters it internally.
+   * @param {ThreeObject} threeObject
+   * @returns {void}
+   * @private
+   */
+  _removeObject(threeObject: ThreeObject): void {
+    if (this._followedObject === threeObject) {
+      this.stopFollowing();
+    }
+    this._world.remove(threeObject._object);
+    delete this._objects[threeObject._id];
+    this._spatialIndex.remove(threeObject);
+    this._visibleObjects.delete(threeObject);
+    this._dirtyObjects.delete(threeObject);
+    this._animatedObjects.delete(threeObject);
+  }
+
+
+  /**
+   * Keeps a ThreeObject's animation and path playback updated on every frame while they run.
+   * @param {ThreeObject} threeObject
+   * @returns {void}
+   * @private
+   */
+  _animateObject(threeObject: ThreeObject): void {
+    if (this._objects[threeObject._id] !== threeObject || !threeObject._isAnimating()) {
+      return;
+    }
+
+    // Restart the clock when animations start again, so the time the layer
+    // was idle doesn't count as the first frame.
+    if (!this._animatedObjects.size) {
+      this._lastAnimationTime = undefined;
+    }
+
+    this._animatedObjects.add(threeObject);
+    this._map?.triggerRepaint();
+  }
+
+
+  /**
+   * Creates, updates, or removes the shadow manager and shadow mapping to
+   * match the shadow settings.
+   * @returns {void}
+   * @private
+   */
+  _updateShadows(): void {
+    if (!this._map || !this._threeRenderer) {
+      return;
+    }
+
+    if (this._shadowOptions) {
+      if (this._shadowManager) {
+        this._shadowManager.setOptions(this._shadowOptions);
+      } else {
+        this._shadowManager = new ShadowManager(this._map, this._scene, this._world, this._shadowOptions);
+      }
+    } else {
+      this._shadowManager?.remove();
+      this._shadowManager = undefined;
+    }
+
+    this._threeRenderer.setShadows(!!this._shadowOptions);
+  }
+
+
+  /**
+   * Creates, updates, or removes the environment manager to match the
+   * environment settings, picked for the current style if given a function.
+   * @returns {void}
+   * @private
+   */
+  _updateEnvironment(): void {
+    if (!this._map || !this._threeRenderer) {
+      return;
+    }
+
+    const environment = typeof this._environment === 'function'
+      ? this._environment(this._map.getStyle())
+      : this._environment;
+
+    if (environment) {
+      this._environmentManager ??= new EnvironmentManager(
+        this._threeRenderer._renderer,
+        this._scene,
+        () => this._map?.triggerRepaint(),
+        error => {
+          if (this._events.error.size) {
+            this.fire('error', { type: 'error', target: this, error });
+          } else {
+            console.error(error);
+          }
+        }
+      );
+      this._environmentManager.setOptions(environment);
+    } else {
+      this._environmentManager?.remove();
+      this._environmentManager = undefined;
+    }
+  }
+
+
+  /**
+   * Computes the camera of the followed object's current position and heading.
+   * @returns {CameraOptions|null} Camera, or `null` while the object has no position.
+   * @private
+   */
+  _getFollowCamera(): CameraOptions | null {
+    const object = this._followedObject;
+    if (!this._map || !object?._lngLatAlt) {
+      return null;
+    }
+
+    const { lng, lat } = object._lngLatAlt;
+    const alt = object._getRenderAltitude();
+    const {
+      mode = 'center',
+      distance = 200,
+      pitch = 60,
+      bearing = 0,
+      height = 2,
+    } = this._followOptions;
+    const heading = object._heading + bearing;
+
+    switch (mode) {
+      case 'chase': {
+        // Step back along the heading and up by the pitch, looking at the object.
+        const chasePitch = clamp(pitch, 0, 89);
+        const pitchRad = chasePitch * DEG_TO_RAD;
+        const headingRad = heading * DEG_TO_RAD;
+        const back = Math.max(distance, 1) * Math.sin(pitchRad) / (EARTH_CIRCUMFERENCE * Math.cos(lat * DEG_TO_RAD));
+        const x = mercatorXFromLng(lng) - back * Math.sin(headingRad);
+        const y = mercatorYFromLat(lat) + back * Math.cos(headingRad);
+        return this._map.calculateCameraOptionsFromCameraLngLatAltRotation(
+          [lngFromMercatorX(x - Math.floor(x)), latFromMercatorY(y)],
+          alt + Math.max(distance, 1) * Math.cos(pitchRad),
+          heading,
+          chasePitch
+        );
+      }
+      case 'first-person':
+        return this._map.calculateCameraOptionsFromCameraLngLatAltRotation(
+          [lng, lat],
+          alt + height,
+          heading,
+          pitch
+        );
+      default:
+        return { center: [lng, lat] };
+    }
+  }
+
+
+  /**
+   * Moves the map camera onto the followed object if it moved or turned since
+   * the last update.
+   * @returns {void}
+   * @private
+   */
+  _updateFollowCamera(): void {
+    const object = this._followedObject;
+    if (!this._map || !object?._lngLatAlt) {
+      return;
+    }
+
+    const { lng, lat } = object._lngLatAlt;
+    const state = [lng, lat, object._getRenderAltitude(), object._heading];
+    if (this._followState && state.every((value, i) => value === this._followState![i])) {
+      return;
+    }
+
+    const camera = this._getFollowCamera();
+    if (camera) {
+      this._followState = state;
+      this._map.jumpTo(camera);
+    }
+  }
+
+
+  /**
+   * Advances running animations and requests the next frame while any
+   * animated object is visible. Stops once every animation has finished.
+   * Animations of objects out of view pause until the layer animates again,
+   * rather than jumping ahead by the time nothing was rendered.
+   * @returns {void}
+   * @private
+   */
+  _updateAnimations(): void {
+    if (!this._animatedObjects.size) {
+      this._lastAnimationTime = undefined;
+      return;
+    }
+
+    const now = performance.now();
+    const delta = this._lastAnimationTime === undefined ? 0 : (now - this._lastAnimationTime) / 1000;
+    this._lastAnimationTime = now;
+
+    let repaint = false;
+    this._animatedObjects.forEach(object => {
+      if (!object._updateAnimation(delta)) {
+        this._animatedObjects.delete(object);
+      } else if (
+        this._visibleObjects.has(object) ||
+        object._pathPlayback?.isPlaying() ||
+        object._transitions.lngLatAlt
+      ) {
+        // Objects moving along a path or to a position may enter the view,
+        // so keep them updated.
+        repaint = true;
+      }
+    });
+
+    if (repaint) {
+      this._map?.triggerRepaint();
+    } else {
+      // Nothing requests the next frame, so the next one may come after idle
+      // time that must not count as elapsed.
+      this._lastAnimationTime = undefined;
+    }
+  }
+
+
+  /**
+   * Schedules a ThreeObject to be re-indexed on the next frame, after its
+   * position or extent changed.
+   * @param {ThreeObject} threeObject
+   * @returns {void}
+   * @private
+   */
+  _invalidateObject(threeObject: ThreeObject): void {
+    if (this._objects[threeObject._id] !== threeObject) {
+      return;
+    }
+
+    this._dirtyObjects.add(threeObject);
+    this._visibilityChanged = true;
+  }
+
+
+  /**
+   * Adds a ThreeLight to the world and registers it internally.
+   * @param {ThreeLight} threeLight
+   * @returns {void}
+   * @private
+   */
+  _addLight(threeLight: ThreeLight): void {
+    this._world.add(threeLight._light);
+    this._lights[threeLight._id] = threeLight;
+  }
+
+
+  /**
+   * Removes a ThreeLight from the world and unregisters it internally.
+   * @param {ThreeLight} threeLight
+   * @returns {void}
+   * @private
+   */
+  _removeLight(threeLight: ThreeLight): void {
+    this._world.remove(threeLight._light);
+    delete this._lights[threeLight._id];
+  }
+
+
+  /**
+   * Adds a ThreeTileset to the world and registers it internally.
+   * @param {ThreeTileset} tileset
+   * @returns {void}
+   * @private
+   */
+  _addTileset(tileset: ThreeTileset): void {
+    this._world.add(tileset._object);
+    this._tilesets[tileset._id] = tileset;
+  }
+
+
+  /**
+   * Removes a ThreeTileset from the world and unregisters it internally.
+   * @param {ThreeTileset} tileset
+   * @returns {void}
+   * @private
+   */
+  _removeTileset(tileset: ThreeTileset): void {
+    this._world.remove(tileset._object);
+    delete this._tilesets[tileset._id];
+  }
+
+
+  /**
+   * Attaches objects that entered the view and detaches those that left it,
+   * based on the camera frustum and zoom level.
+   * @returns {void}
+   * @private
+   */
+  _updateVisibility(): void {
+    if (!this._map || !this._cameraAdapter) {
+      return;
+    }
+
+    const zoom = this._map.getZoom();
+    const visible = new Set<ThreeObject>();
+
+    if (this.minzoom <= zoom && zoom <= this.maxzoom) {
+      if (this._renderOutsideBounds) {
+        Object.values(this._objects).forEach(object => visible.add(object));
+      } else {
+        const extent = this._cameraAdapter.getViewExtent() ?? WORLD_EXTENT;
+        this._spatialIndex.search(extent).forEach(object => {
+          this._isObjectInFrustum(object) && visible.add(object);
+        });
+      }
+    }
+
+    this._visibleObjects.forEach(object => {
+      if (!visible.has(object)) {
+        this._world.remove(object._object);
+        this._visibleObjects.delete(object);
+      }
+    });
+
+    visible.forEach(object => {
+      if (!this._visibleObjects.has(object)) {
+        this._world.add(object._object);
+        this._visibleObjects.add(object);
+      }
+    });
+  }
+
+
+  /**
+   * Picks the level of detail of visible objects with levels, from the zoom
+   * and the diameter of their bounding sphere on screen.
+   * @returns {void}
+   * @private
+   */
+  _updateLODs(): void {
+    if (!this._map || !this._cameraAdapter) {
+      return;
+    }
+
+    const zoom = this._map.getZoom();
+    const cameraPosition = this._cameraAdapter.getCameraPosition(tempCameraPosition);
+    const focalLength = this._cameraAdapter.getFocalLength();
+
+    this._visibleObjects.forEach(object => {
+      if (!object._lods.length) {
+        return;
+      }
+
+      let pixelSize = 0;
+      object._getBoundingSphere(tempBoundingSphere);
+      if (!tempBoundingSphere.isEmpty()) {
+        if (object._object.matrixAutoUpdate) {
+          object._object.updateMatrix();
+        }
+        tempObjectMatrix.multiplyMatrices(this._world.matrix, object._object.matrix);
+        tempBoundingSphere.applyMatrix4(tempObjectMatrix);
+
+        const distance = Math.max(tempBoundingSphere.center.distanceTo(cameraPosition), tempBoundingSphere.radius);
+        pixelSize = 2 * tempBoundingSphere.radius * focalLength / distance;
+      }
+      object._updateLOD(zoom, pixelSize);
+    });
+  }
+
+
+  /**
+   * Checks whether the world-space bounding sphere of a ThreeObject intersects
+   * the camera frustum. Objects without loaded content are always kept.
+   * @param {ThreeObject} object
+   * @returns {boolean}
+   * @private
+   */
+  _isObjectInFrustum(object: ThreeObject): boolean {
+    object._getBoundingSphere(tempBoundingSphere);
+    if (tempBoundingSphere.isEmpty()) {
+      return true;
+    }
+
+    if (object._object.matrixAutoUpdate) {
+      object._object.updateMatrix();
+    }
+
+    tempObjectMatrix.multiplyMatrices(this._world.matrix, object._object.matrix);
+    return this._cameraAdapter!.frustum.intersectsSphere(tempBoundingSphere.applyMatrix4(tempObjectMatrix));
+  }
+
+
+  /**
+   * Places a ThreeObject according to the active map projection.
+   * @param {ThreeObject} object
+   * @returns {void}
+   * @private
+   */
+  _updateObjectProjection = (object: ThreeObject): void => {
+    object._updateProjection(this._cameraAdapter!);
+  }
+
+
+  /**
+   * Re-clamps a ThreeObject to the terrain if its altitude depends on it.
+   * @param {ThreeObject} object
+   * @returns {void}
+   * @private
+   */
+  _updateObjectTerrain = (object: ThreeObject): void => {
+    if (object._altitudeReference !== 'sea-level') {
+      object._updatePosition();
+    }
+  }
+
+
+  /**
+   * Handler for MapLibre 'move' event. Schedules a visibility update for the
+   * next frame.
+   * @returns {void}
+   * @private
+   */
+  _mapOnMove = (): void => {
+    if (this.minzoom === 0 && this.maxzoom === 24 && this._renderOutsideBounds) return;
+    this._visibilityChanged = true;
+  }
+
+
+  /**
+   * Handler for MapLibre 'render' event while following an object. Moves the
+   * camera after the frame, so the map and the objects are drawn from the same camera.
+   * @returns {void}
+   * @private
+   */
+  _mapOnRender = (): void => {
+    if (this._map?.isEasing()) {
+      // Catch up once the transition onto the object ends.
+      this._map.triggerRepaint();
+      return;
+    }
+
+    this._updateFollowCamera();
+  }
+
+
+  /**
+   * Handler for MapLibre 'dragstart', 'rotatestart' and 'pitchstart' events.
+   * Stops following an object when the user starts moving the map.
+   * @param {MapCameraEventArgs} event
+   * @returns {void}
+   * @private
+   */
+  _mapOnCameraStart = (event: MapCameraEventArgs): void => {
+    if (event.originalEvent) {
+      this.stopFollowing();
+    }
+  }
+
+
+  /**
+   * Handler for MapLibre 'terrain' event, fired when terrain is enabled,
+   * disabled, or its exaggeration changes.
+   * @returns {void}
+   * @private
+   */
+  _mapOnTerrain = (): void => {
+    this._terrainChanged = true;
+    this._map?.triggerRepaint();
+  }
+
+
+  /**
+   * Handler for MapLibre 'styledata' event. Applies the style's light to the
+   * lights following it.
+   * @returns {void}
+   * @private
+   */
+  _mapOnStyleData = (): void => {
+    const map = this._map;
+    if (!map) {
+      return;
+    }
+    Object.values(this._lights).forEach(light => light._updateStyle(map));
+    map.triggerRepaint();
+  }
+
+
+  /**
+   * Handler for MapLibre 'style.load' event. Picks the environment again for
+   * the new style.
+   * @returns {void}
+   * @private
+   */
+  _mapOnStyleLoad = (): void => {
+    if (typeof this._environment === 'function') {
+      this._updateEnvironment();
+      this._map?.triggerRepaint();
+    }
+  }
+
+
+  /**
+   * Handler for MapLibre 'sourcedata' event. Schedules a terrain re-clamp
+   * when tiles of the terrain source finish loading.
+   * @param {MapSourceDataEvent} event
+   * @returns {void}
+   * @private
+   */
+  _mapOnSourceData = (event: MapSourceDataEvent): void => {
+    const terrain = this._map?.getTerrain();
+    if (terrain && event.sourceId === terrain.source && event.tile) {
+      this._terrainChanged = true;
+      this._map?.triggerRepaint();
+    }
+  }
+
+
+  /**
+   * Handler for MapLibre pointer events. Fires the event for the intersected
+   * object, if anything listens to it.
+   * @param {MapMouseEventArgs|MapWheelEventArgs} event
+   * @returns {void}
+   * @private
+   */
+  _mapOnPointerEvent = (event: MapMouseEventArgs | MapWheelEventArgs): void => {
+    const type = event.type as ThreeEventType;
+    if (!this._hasListeners(type)) {
+      return;
+    }
+
+    let point: { x: number; y: number };
+    if ('point' in event) {
+      point = event.point;
+    } else {
+      const rect = this._canvas!.getBoundingClientRect();
+      point = {
+        x: event.originalEvent.clientX - rect.left,
+        y: event.originalEvent.clientY - rect.top,
+      };
+    }
+
+    const [hit] = this.queryRenderedObjects([point.x, point.y], { limit: 1 });
+    if (hit) {
+      this._firePointerEvent(type, hit.target, point, event, hit);
     }
   }
 
@@ -461,36 +2151,22 @@ export class ThreeLayer {
    * @private
    */
   _mapOnMouseMove = (event: MapMouseEventArgs): void => {
-    const threeObject = this.queryRenderObject([
+    const [hit] = this.queryRenderedObjects([
       event.point.x,
       event.point.y,
-    ]);
+    ], { limit: 1 });
+    const threeObject = hit?.target ?? null;
 
     if (threeObject && threeObject !== this._prevMouseEventThreeObject) {
-      this.fire('mouseenter', {
-        type: 'mouseenter',
-        lngLatAlt: LngLatAlt.convert(threeObject._lngLatAlt!),
-        point: event.point,
-        target: threeObject,
-      });
+      this._firePointerEvent('mouseenter', threeObject, event.point, event, hit);
     }
 
     if (threeObject) {
-      this.fire('mouseover', {
-        type: 'mouseover',
-        lngLatAlt: LngLatAlt.convert(threeObject._lngLatAlt!),
-        point: event.point,
-        target: threeObject,
-      });
+      this._firePointerEvent('mouseover', threeObject, event.point, event, hit);
     }
 
     if (this._prevMouseEventThreeObject && threeObject !== this._prevMouseEventThreeObject) {
-      this.fire('mouseleave', {
-        type: 'mouseleave',
-        lngLatAlt: LngLatAlt.convert(this._prevMouseEventThreeObject._lngLatAlt!),
-        point: event.point,
-        target: this._prevMouseEventThreeObject,
-      });
+      this._firePointerEvent('mouseleave', this._prevMouseEventThreeObject, event.point, event);
     }
 
     this._prevMouseEventThreeObject = threeObject;
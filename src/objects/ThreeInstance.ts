@@ -0,0 +1,217 @@
+import type { ColorRepresentation } from 'three';
+import type { ThreeInstancedModel } from './ThreeInstancedModel';
+import type { ThreeModelRotation, ThreeModelScale } from './ThreeModel';
+import { Color } from 'three';
+import { LngLatAlt, LngLatAltLike } from '../geometries/LngLatAlt';
+
+
+/**
+ * Options describing a single placement of a ThreeInstancedModel.
+ */
+export interface ThreeInstanceOptions {
+  lngLatAlt: LngLatAltLike;
+  rotation?: ThreeModelRotation;
+  scale?: ThreeModelScale;
+  color?: ColorRepresentation;
+}
+
+
+/**
+ * A single placement of a ThreeInstancedModel.
+ * Instances are created by the model and keep a stable index until removed.
+ */
+export class ThreeInstance {
+  /**
+   * Index of the instance within its model's instanced meshes.
+   * @type {number}
+   * @private
+   */
+  _index: number;
+  /**
+   * Model this instance belongs to.
+   * @type {ThreeInstancedModel|undefined}
+   * @private
+   */
+  _model?: ThreeInstancedModel;
+  /**
+   * Geographical position of the instance in longitude, latitude, and altitude.
+   * @type {LngLatAlt}
+   * @private
+   */
+  _lngLatAlt: LngLatAlt;
+  /**
+   * Scale of the instance in each axis.
+   * @type {ThreeModelScale}
+   * @private
+   */
+  _scale: ThreeModelScale = {
+    x: 1,
+    y: 1,
+    z: 1,
+  }
+  /**
+   * Rotation of the instance in degrees.
+   * @type {ThreeModelRotation}
+   * @private
+   */
+  _rotation: ThreeModelRotation = {
+    x: 0,
+    y: 0,
+    z: 0,
+  }
+  /**
+   * Optional tint color of the instance.
+   * @type {Color|undefined}
+   * @private
+   */
+  _color?: Color;
+  /**
+   * Terrain elevation in meters at the instance's position, including exaggeration.
+   * @type {number}
+   * @private
+   */
+  _terrainElevation: number = 0;
+
+
+  /**
+   * Constructs a new ThreeInstance. Use `ThreeInstancedModel.addInstance` instead.
+   * @param {ThreeInstancedModel} model - Model the instance belongs to.
+   * @param {number} index - Index of the instance within the model.
+   * @param {ThreeInstanceOptions} options - Placement of the instance.
+   */
+  constructor(model: ThreeInstancedModel, index: number, options: ThreeInstanceOptions) {
+    this._model = model;
+    this._index = index;
+    this._lngLatAlt = LngLatAlt.convert(options.lngLatAlt);
+
+    this._scale.x = options.scale?.x || 1;
+    this._scale.y = options.scale?.y || 1;
+    this._scale.z = options.scale?.z || 1;
+
+    this._rotation.x = options.rotation?.x || 0;
+    this._rotation.y = options.rotation?.y || 0;
+    this._rotation.z = options.rotation?.z || 0;
+
+    if (options.color !== undefined) {
+      this._color = new Color(options.color);
+    }
+  }
+
+
+  /**
+   * Returns the index of the instance within its model.
+   * @returns {number}
+   */
+  getIndex(): number {
+    return this._index;
+  }
+
+
+  /**
+   * Returns the model the instance belongs to, if it has not been removed.
+   * @returns {ThreeInstancedModel|undefined}
+   */
+  getModel(): ThreeInstancedModel | undefined {
+    return this._model;
+  }
+
+
+  /**
+   * Returns the current position of the instance.
+   * @returns {LngLatAlt}
+   */
+  getLngLatAlt(): LngLatAlt {
+    return this._lngLatAlt;
+  }
+
+
+  /**
+   * Sets the instance's geographical position.
+   * @param {LngLatAltLike} lngLatAlt - Position in LngLatAlt or compatible format.
+   * @returns {this}
+   */
+  setLngLatAlt(lngLatAlt: LngLatAltLike): this {
+    this._lngLatAlt = LngLatAlt.convert(lngLatAlt);
+    this._model?._updateInstance(this);
+    return this;
+  }
+
+
+  /**
+   * Returns the current scale of the instance.
+   * @returns {ThreeModelScale}
+   */
+  getScale(): ThreeModelScale {
+    return this._scale;
+  }
+
+
+  /**
+   * Sets the instance's scale.
+   * @param {number} x - Scale on X-axis.
+   * @param {number} y - Scale on Y-axis.
+   * @param {number} z - Scale on Z-axis.
+   * @returns {this}
+   */
+  setScale(x: number, y: number, z: number): this {
+    this._scale = { x, y, z };
+    this._model?._updateInstance(this);
+    return this;
+  }
+
+
+  /**
+   * Returns the current rotation of the instance in degrees.
+   * @returns {ThreeModelRotation}
+   */
+  getRotation(): ThreeModelRotation {
+    return this._rotation;
+  }
+
+
+  /**
+   * Sets the instance's rotation in degrees.
+   * @param {number} x - Rotation around X-axis.
+   * @param {number} y - Rotation around Y-axis.
+   * @param {number} z - Rotation around Z-axis.
+   * @returns {this}
+   */
+  setRotation(x: number, y: number, z: number): this {
+    this._rotation = { x, y, z };
+    this._model?._updateInstance(this);
+    return this;
+  }
+
+
+  /**
+   * Returns the tint color of the instance, if any.
+   * @returns {Color|null}
+   */
+  getColor(): Color | null {
+    return this._color || null;
+  }
+
+
+  /**
+   * Sets or clears the tint color of the instance.
+   * @param {ColorRepresentation|null|undefined} color
+   * @returns {this}
+   */
+  setColor(color?: ColorRepresentation | null): this {
+    this._color = color === undefined || color === null ? undefined : new Color(color);
+    this._model?._updateInstance(this);
+    return this;
+  }
+
+
+  /**
+   * Removes the instance from its model.
+   * @returns {this}
+   */
+  remove(): this {
+    this._model?.removeInstance(this);
+    return this;
+  }
+
+
+}
@@ -0,0 +1,499 @@
+import type { Object3D, Mesh, Box3 } from 'three';
+import type { MercatorExtent } from '../core/SpatialIndex';
+import { InstancedMesh, Matrix4, Vector3, Euler, Quaternion, Color, Sphere } from 'three';
+import { ThreeModel, ThreeModelOptions } from './ThreeModel';
+import { ThreeInstance, ThreeInstanceOptions } from './ThreeInstance';
+import {
+  lngLatToVector3,
+  projectedUnitsPerMeter,
+  mercatorXFromLng,
+  mercatorYFromLat,
+  clamp,
+  disposeObject,
+} from '../utils';
+import { DEG_TO_RAD, MAX_VALID_LATITUDE, WORLD_SIZE } from '../configs';
+
+
+/**
+ * Options to create a ThreeInstancedModel.
+ * Accepts the same asset sources as ThreeModel. `lngLatAlt` is the anchor the
+ * instances are placed around and defaults to the first instance's position.
+ * Levels of detail are not supported.
+ */
+export type ThreeInstancedModelOptions = ThreeModelOptions & {
+  instances?: ThreeInstanceOptions[];
+  capacity?: number;
+  lods?: never;
+}
+
+
+/**
+ * Newer Three.js versions cache instance bounds for culling and raycasting.
+ */
+type InstancedMeshBounds = InstancedMesh & {
+  boundingBox?: Box3 | null;
+  boundingSphere?: Sphere | null;
+};
+
+
+const tempInstanceMatrix = new Matrix4();
+const tempInstancePosition = new Vector3();
+const tempInstanceScale = new Vector3();
+const tempInstanceEuler = new Euler();
+const tempInstanceQuaternion = new Quaternion();
+const hiddenInstanceMatrix = new Matrix4().makeScale(0, 0, 0);
+const defaultInstanceColor = new Color(0xffffff);
+const tempAssetSphere = new Sphere();
+const tempInstanceSphere = new Sphere();
+
+
+/**
+ * A model that loads its asset once and draws every placement with
+ * `InstancedMesh`, for scenes with thousands of identical objects.
+ */
+export class ThreeInstancedModel extends ThreeModel {
+  /**
+   * Instances keyed by their index. Removed slots are left empty and reused.
+   * @type {(ThreeInstance|undefined)[]}
+   * @private
+   */
+  _instances: (ThreeInstance | undefined)[] = [];
+  /**
+   * Indices of removed instances available for reuse.
+   * @type {number[]}
+   * @private
+   */
+  _freeIndices: number[] = [];
+  /**
+   * Number of instances allocated in each instanced mesh.
+   * @type {number}
+   * @private
+   */
+  _capacity: number;
+  /**
+   * Instanced meshes built from every mesh of the loaded asset.
+   * @type {InstancedMesh[]}
+   * @private
+   */
+  _meshes: InstancedMesh[] = [];
+  /**
+   * Loaded asset the instanced meshes are built from.
+   * @type {Object3D|undefined}
+   * @private
+   */
+  _source?: Object3D;
+
+
+  /**
+   * Constructs a new ThreeInstancedModel instance.
+   * @param {ThreeInstancedModelOptions} options - Configuration options for the model.
+   */
+  constructor(options: ThreeInstancedModelOptions) {
+    super(options);
+
+    this._object.name = 'ThreeInstancedModel';
+    this._capacity = Math.max(options.capacity ?? 0, options.instances?.length ?? 0, 1);
+
+    options.instances?.forEach(instance => this.addInstance(instance));
+
+    if (this._source) {
+      this._buildInstancedMeshes();
+    }
+  }
+
+
+  /**
+   * Returns the instance at the given index, if any.
+   * @param {number} index
+   * @returns {ThreeInstance|undefined}
+   */
+  getInstance(index: number): ThreeInstance | undefined {
+    return this._instances[index];
+  }
+
+
+  /**
+   * Returns all current instances.
+   * @returns {ThreeInstance[]}
+   */
+  getInstances(): ThreeInstance[] {
+    return this._instances.filter((instance): instance is ThreeInstance => !!instance);
+  }
+
+
+  /**
+   * Adds a new placement of the model.
+   * @param {ThreeInstanceOptions} options - Position, rotation, scale, and color of the instance.
+   * @returns {ThreeInstance} The created instance.
+   */
+  addInstance(options: ThreeInstanceOptions): ThreeInstance {
+    const index = this._freeIndices.length ? this._freeIndices.pop()! : this._instances.length;
+    const instance = new ThreeInstance(this, index, options);
+    this._instances[index] = instance;
+
+    if (!this._lngLatAlt) {
+      this.setLngLatAlt(instance._lngLatAlt);
+    }
+
+    if (this._instances.length > this._capacity) {
+      this._capacity = Math.max(this._capacity * 2, this._instances.length);
+      this._source && this._buildInstancedMeshes();
+    }
+
+    this._updateInstance(instance);
+    return instance;
+  }
+
+
+  /**
+   * Removes a placement of the model. Its index becomes available for reuse.
+   * @param {ThreeInstance|number} instance - Instance or its index.
+   * @returns {this}
+   */
+  removeInstance(instance: ThreeInstance | number): this {
+    const index = typeof instance === 'number' ? instance : instance._index;
+    const removed = this._instances[index];
+    if (!removed || removed._model !== this) {
+      return this;
+    }
+
+    removed._model = undefined;
+    this._instances[index] = undefined;
+
+    if (index === this._instances.length - 1) {
+      while (this._instances.length && !this._instances[this._instances.length - 1]) {
+        this._instances.pop();
+      }
+      this._freeIndices = this._freeIndices.filter(freeIndex => freeIndex < this._instances.length);
+    } else {
+      this._freeIndices.push(index);
+      this._meshes.forEach(mesh => mesh.setMatrixAt(index, hiddenInstanceMatrix));
+    }
+
+    this._commitInstances();
+    return this;
+  }
+
+
+  /**
+   * Replaces all placements of the model.
+   * @param {ThreeInstanceOptions[]} instances - New instances.
+   * @returns {ThreeInstance[]} The created instances.
+   */
+  setInstances(instances: ThreeInstanceOptions[]): ThreeInstance[] {
+    this._instances.forEach(instance => instance && (instance._model = undefined));
+    this._instances = [];
+    this._freeIndices = [];
+
+    const created = instances.map((options, index) => {
+      const instance = new ThreeInstance(this, index, options);
+      this._instances[index] = instance;
+      return instance;
+    });
+
+    if (!this._lngLatAlt && created.length) {
+      this.setLngLatAlt(created[0]._lngLatAlt);
+    }
+
+    if (created.length > this._capacity) {
+      this._capacity = created.length;
+      this._source && this._buildInstancedMeshes();
+    }
+
+    created.forEach(instance => this._writeInstance(instance));
+    this._commitInstances();
+    return created;
+  }
+
+
+  /**
+   * Writes a single instance to the instanced meshes and requests a repaint.
+   * @param {ThreeInstance} instance
+   * @returns {void}
+   * @private
+   */
+  _updateInstance(instance: ThreeInstance): void {
+    this._writeInstance(instance);
+    this._commitInstances();
+  }
+
+
+  /**
+   * Writes an instance's matrix and color to every instanced mesh.
+   * Instances are placed relative to the model's anchor, in meters.
+   * @param {ThreeInstance} instance
+   * @returns {void}
+   * @private
+   */
+  _writeInstance(instance: ThreeInstance): void {
+    if (!this._lngLatAlt || !this._meshes.length) {
+      return;
+    }
+
+    const { lng, lat, alt } = instance._lngLatAlt;
+    if (this._altitudeReference !== 'sea-level') {
+      instance._terrainElevation = this._layer?._map?.queryTerrainElevation([lng, lat]) ?? 0;
+    }
+
+    const renderAlt = this._altitudeReference === 'terrain'
+      ? instance._terrainElevation
+      : this._altitudeReference === 'relative-to-terrain'
+        ? instance._terrainElevation + alt
+        : alt;
+
+    const anchorScale = projectedUnitsPerMeter(this._lngLatAlt.lat);
+    const latScale = projectedUnitsPerMeter(lat) / anchorScale;
+
+    tempInstancePosition
+      .copy(lngLatToVector3(lng, lat, renderAlt))
+      .sub(this._object.position)
+      .divideScalar(anchorScale);
+
+    tempInstanceEuler.set(
+      instance._rotation.x * DEG_TO_RAD,
+      instance._rotation.y * DEG_TO_RAD,
+      instance._rotation.z * DEG_TO_RAD
+    );
+    tempInstanceQuaternion.setFromEuler(tempInstanceEuler);
+
+    tempInstanceScale.set(
+      instance._scale.x * latScale,
+      instance._scale.y * latScale,
+      instance._scale.z * latScale
+    );
+
+    tempInstanceMatrix.compose(tempInstancePosition, tempInstanceQuaternion, tempInstanceScale);
+
+    this._meshes.forEach(mesh => {
+      mesh.setMatrixAt(instance._index, tempInstanceMatrix);
+
+      if (instance._color || mesh.instanceColor) {
+        this._ensureInstanceColor(mesh);
+        mesh.setColorAt(instance._index, instance._color || defaultInstanceColor);
+      }
+    });
+  }
+
+
+  /**
+   * Flags instance buffers for upload, resets cached bounds, and requests a repaint.
+   * @returns {void}
+   * @private
+   */
+  _commitInstances(): void {
+    this._meshes.forEach(mesh => {
+      mesh.count = this._instances.length;
+      mesh.instanceMatrix.needsUpdate = true;
+      if (mesh.instanceColor) {
+        mesh.instanceColor.needsUpdate = true;
+      }
+
+      const bounds = mesh as InstancedMeshBounds;
+      if (bounds.boundingBox) bounds.boundingBox = null;
+      if (bounds.boundingSphere) bounds.boundingSphere = null;
+    });
+    this._layer?._invalidateObject(this);
+    this._repaint();
+  }
+
+
+  /**
+   * Creates the per-instance color buffer of a mesh, defaulting every instance to white.
+   * @param {InstancedMesh} mesh
+   * @returns {void}
+   * @private
+   */
+  _ensureInstanceColor(mesh: InstancedMesh): void {
+    if (mesh.instanceColor) {
+      return;
+    }
+
+    for (let i = 0; i < this._capacity; i++) {
+      mesh.setColorAt(i, defaultInstanceColor);
+    }
+  }
+
+
+  /**
+   * Rebuilds one instanced mesh per mesh of the loaded asset, baking each
+   * mesh's transform into its geometry, and rewrites every instance.
+   * @returns {void}
+   * @private
+   */
+  _buildInstancedMeshes(): void {
+    this._meshes.forEach(mesh => {
+      this._object.remove(mesh);
+      mesh.geometry.dispose();
+      mesh.dispose();
+    });
+    this._meshes = [];
+
+    const source = this._source!;
+    source.updateMatrixWorld(true);
+    source.traverse(child => {
+      const mesh = child as Mesh;
+      if (!mesh.isMesh) {
+        return;
+      }
+
+      const geometry = mesh.geometry.clone().applyMatrix4(mesh.matrixWorld);
+      const instancedMesh = new InstancedMesh(geometry, mesh.material, this._capacity);
+      instancedMesh.name = mesh.name;
+      instancedMesh.frustumCulled = false;
+      instancedMesh.count = 0;
+
+      this._meshes.push(instancedMesh);
+      this._object.add(instancedMesh);
+    });
+    this._updateShadow();
+
+    this._instances.forEach((instance, index) => {
+      if (instance) {
+        this._writeInstance(instance);
+      } else {
+        this._meshes.forEach(mesh => mesh.setMatrixAt(index, hiddenInstanceMatrix));
+      }
+    });
+    this._commitInstances();
+  }
+
+
+  /**
+   * Keeps the loaded asset as the source of the instanced meshes instead of
+   * adding it to the group directly.
+   * @param {Object3D} content - Loaded mesh or model scene.
+   * @returns {void}
+   * @private
+   */
+  _addContent(content: Object3D): void {
+    this._source = content;
+
+    // Synchronous 'mesh' content arrives while ThreeModel's constructor is
+    // still running; the instanced meshes are built once construction ends.
+    if (this._instances) {
+      this._buildInstancedMeshes();
+      this._updateLocalBox();
+    }
+    this._setLoaded();
+  }
+
+
+  /**
+   * Disposes the instanced meshes, which own copies of the asset's
+   * geometries, and the asset itself unless it is shared through the cache,
+   * in which case it is released to the cache.
+   * @returns {void}
+   * @private
+   */
+  _disposeContent(): void {
+    this._meshes.forEach(mesh => {
+      mesh.geometry.dispose();
+      mesh.dispose();
+    });
+    this._meshes = [];
+
+    if (!this._asset && this._source) {
+      disposeObject(this._source);
+    }
+    this._source = undefined;
+    this._releaseAsset();
+  }
+
+
+  /**
+   * Returns the bounding sphere enclosing every instance in the model's local
+   * space, used for frustum culling.
+   * @param {Sphere} target - Sphere to write the result into.
+   * @returns {Sphere} Bounding sphere. Empty when nothing is loaded or placed.
+   * @private
+   */
+  _getBoundingSphere(target: Sphere): Sphere {
+    target.makeEmpty();
+    if (!this._meshes.length || this._localBox.isEmpty()) {
+      return target;
+    }
+
+    this._localBox.getBoundingSphere(tempAssetSphere);
+    this._instances.forEach(instance => {
+      if (!instance) {
+        return;
+      }
+
+      this._meshes[0].getMatrixAt(instance._index, tempInstanceMatrix);
+      target.union(tempInstanceSphere.copy(tempAssetSphere).applyMatrix4(tempInstanceMatrix));
+    });
+
+    return target;
+  }
+
+
+  /**
+   * Calls a function for each instance with its matrix in the model's local space.
+   * @param {(target: ThreeModel|ThreeInstance, matrix: Matrix4) => void} callback
+   * @returns {void}
+   * @private
+   */
+  _forEachTarget(callback: (target: ThreeModel | ThreeInstance, matrix: Matrix4) => void): void {
+    if (!this._meshes.length) {
+      return;
+    }
+
+    this._instances.forEach(instance => {
+      if (instance) {
+        this._meshes[0].getMatrixAt(instance._index, tempInstanceMatrix);
+        callback(instance, tempInstanceMatrix);
+      }
+    });
+  }
+
+
+  /**
+   * Returns the extent covered by every instance in normalized Mercator space,
+   * used by the layer's spatial index.
+   * @returns {MercatorExtent|null} Extent, or `null` if there are no instances.
+   * @private
+   */
+  _getMercatorExtent(): MercatorExtent | null {
+    const radius = this._getRadius();
+    const extent: MercatorExtent = [Infinity, Infinity, -Infinity, -Infinity];
+
+    this._instances.forEach(instance => {
+      if (!instance) {
+        return;
+      }
+
+      const { lng, lat } = instance._lngLatAlt;
+      const { x: sx, y: sy, z: sz } = instance._scale;
+      const x = mercatorXFromLng(lng);
+      const y = mercatorYFromLat(clamp(lat, -MAX_VALID_LATITUDE, MAX_VALID_LATITUDE));
+      const r = radius * Math.max(Math.abs(sx), Math.abs(sy), Math.abs(sz)) * projectedUnitsPerMeter(lat) / WORLD_SIZE;
+
+      extent[0] = Math.min(extent[0], x - r);
+      extent[1] = Math.min(extent[1], y - r);
+      extent[2] = Math.max(extent[2], x + r);
+      extent[3] = Math.max(extent[3], y + r);
+    });
+
+    return extent[0] <= extent[2] ? extent : null;
+  }
+
+
+  /**
+   * Moves the anchor to its resolved altitude and re-places every instance around it.
+   * @returns {void}
+   * @private
+   */
+  _updatePosition(): void {
+    super._updatePosition();
+
+    // Also called while ThreeModel's constructor is still running.
+    if (!this._instances) {
+      return;
+    }
+
+    this._instances.forEach(instance => instance && this._writeInstance(instance));
+    this._commitInstances();
+  }
+
+
+}
@@ -1,6 +1,21 @@
-import type { ColorRepresentation } from 'three';
+import type { Map, LightSpecification } from 'maplibre-gl';
+import type { ColorRepresentation, Light } from 'three';
 import type { ThreeLayer } from '../layers/ThreeLayer';
-import { Group, AmbientLight, DirectionalLight } from 'three';
+import type { CameraAdapter } from '../core/CameraAdapter';
+import {
+  Group,
+  AmbientLight,
+  DirectionalLight,
+  PointLight,
+  SpotLight,
+  HemisphereLight,
+  Color,
+  Matrix4,
+  Vector3,
+} from 'three';
+import { LngLatAlt, LngLatAltLike } from '../geometries/LngLatAlt';
+import { getSunPosition, SunPosition, clamp, lngLatToVector3, projectedUnitsPerMeter } from '../utils';
+import { DEG_TO_RAD } from '../configs';
 
 
 /**
@@ -13,12 +28,34 @@ interface LightVector {
 }
 
 
+/**
+ * Direction in the sky as seen from the ground.
+ * - `azimuth`: compass direction in degrees clockwise from north.
+ * - `altitude`: elevation in degrees above the horizon, negative below it.
+ */
+export interface ThreeLightDirection {
+  azimuth: number;
+  altitude: number;
+}
+
+
 /**
  * Options to create a ThreeLight.
  * Can be either:
  * - 'default': a pre-configured combination of ambient and directional lights.
  * - 'ambient': a single ambient light.
- * - 'direction': a single directional light with optional vector.
+ * - 'direction': a single directional light shining from `position`, or from
+ *   `vector` towards the origin. With `castShadow`, it casts shadows while
+ *   the layer has shadows enabled.
+ * - 'sun': a directional light placed at the sun's position for a date, seen
+ *   from `lngLatAlt` or from the map center, warmer and dimmer at dawn and dusk.
+ * - 'point': a light at `lngLatAlt` shining in every direction, fading out
+ *   within `range` meters.
+ * - 'spot': a light at `lngLatAlt` shining a cone towards `direction`, fading
+ *   out within `range` meters.
+ * - 'hemisphere': a light from the sky fading to `groundColor` from below.
+ * - 'style': ambient and directional lights following the map style's light,
+ *   which shades fill-extrusion layers.
  */
 export type ThreeLightOptions = {
   type: 'default';
@@ -30,14 +67,105 @@ export type ThreeLightOptions = {
   type: 'direction';
   color?: ColorRepresentation;
   intensity?: number;
+  position?: ThreeLightDirection;
   vector?: LightVector;
+  castShadow?: boolean;
+} | {
+  type: 'sun';
+  date?: Date;
+  lngLatAlt?: LngLatAltLike;
+  color?: ColorRepresentation;
+  intensity?: number;
+  castShadow?: boolean;
+} | {
+  type: 'point';
+  lngLatAlt: LngLatAltLike;
+  color?: ColorRepresentation;
+  intensity?: number;
+  range?: number;
+  decay?: number;
+} | {
+  type: 'spot';
+  lngLatAlt: LngLatAltLike;
+  direction?: ThreeLightDirection;
+  color?: ColorRepresentation;
+  intensity?: number;
+  range?: number;
+  decay?: number;
+  angle?: number;
+  penumbra?: number;
+} | {
+  type: 'hemisphere';
+  color?: ColorRepresentation;
+  groundColor?: ColorRepresentation;
+  intensity?: number;
+} | {
+  type: 'style';
+  castShadow?: boolean;
 }
 
 
+/**
+ * Color of the sun at the horizon, blended towards the light's color as it rises.
+ */
+const HORIZON_SUN_COLOR = new Color(0xff8c42);
+
+
+/**
+ * Sun altitude in degrees above which the sun has its full color.
+ */
+const SUN_COLOR_ALTITUDE = 20;
+
+
+/**
+ * Sun altitude in degrees above which the sun has its full intensity.
+ */
+const SUN_INTENSITY_ALTITUDE = 10;
+
+
+/**
+ * Distance in degrees the map center must move before the sun is recomputed.
+ */
+const SUN_UPDATE_DISTANCE = 0.1;
+
+
+/**
+ * Defaults of the MapLibre style light.
+ */
+const DEFAULT_STYLE_LIGHT = {
+  anchor: 'viewport',
+  position: [1.15, 210, 30],
+  color: '#ffffff',
+  intensity: 0.5,
+} as const;
+
+
+const flipYMatrix = new Matrix4().makeRotationZ(Math.PI);
+const tempScale = new Vector3();
+
+
+/**
+ * Converts a direction in the sky to a unit vector in world axes, which point
+ * west, south, and up.
+ * @param {ThreeLightDirection} direction - Direction in the sky.
+ * @param {Vector3} target - Vector to write the result into.
+ * @returns {Vector3} The unit vector.
+ */
+function directionToVector({ azimuth, altitude }: ThreeLightDirection, target: Vector3): Vector3 {
+  const azimuthRad = azimuth * DEG_TO_RAD;
+  const altitudeRad = altitude * DEG_TO_RAD;
+  return target.set(
+    -Math.sin(azimuthRad) * Math.cos(altitudeRad),
+    -Math.cos(azimuthRad) * Math.cos(altitudeRad),
+    Math.sin(altitudeRad)
+  );
+}
+
 
 /**
  * Wrapper class for Three.js lights in a ThreeLayer context.
- * Supports ambient lights, directional lights, and a default light setup.
+ * Supports ambient, directional, sun, point, spot and hemisphere lights, and
+ * a default light setup.
  */
 export class ThreeLight {
   /**
@@ -58,6 +186,104 @@ export class ThreeLight {
    * @private
    */
   _layer?: ThreeLayer;
+  /**
+   * Type of light this object was created with.
+   * @type {ThreeLightOptions['type']}
+   * @private
+   */
+  _type: ThreeLightOptions['type'];
+  /**
+   * Color of the light, towards which the sun blends as it rises.
+   * @type {Color}
+   * @private
+   */
+  _color: Color = new Color(0xffffff);
+  /**
+   * Intensity of the light, scaling the intensity of each Three.js light.
+   * @type {number}
+   * @private
+   */
+  _intensity: number = 1;
+  /**
+   * Directional light of 'direction' lights.
+   * @type {DirectionalLight|undefined}
+   * @private
+   */
+  _directionLight?: DirectionalLight;
+  /**
+   * Direction the light of a 'direction' light shines from, or the cone of a
+   * 'spot' light points to.
+   * @type {ThreeLightDirection|undefined}
+   * @private
+   */
+  _direction?: ThreeLightDirection;
+  /**
+   * Positioned light of 'point' and 'spot' lights.
+   * @type {PointLight|SpotLight|undefined}
+   * @private
+   */
+  _localLight?: PointLight | SpotLight;
+  /**
+   * Group placing the positioned light in an east-north-up frame in meters.
+   * @type {Group|undefined}
+   * @private
+   */
+  _anchor?: Group;
+  /**
+   * Distance in meters at which a positioned light fades out, or 0 for no limit.
+   * @type {number}
+   * @private
+   */
+  _range: number = 0;
+  /**
+   * Directional light following the sun, for 'sun' lights.
+   * @type {DirectionalLight|undefined}
+   * @private
+   */
+  _sunLight?: DirectionalLight;
+  /**
+   * Date the sun position is computed for.
+   * @type {Date}
+   * @private
+   */
+  _date: Date = new Date();
+  /**
+   * Position of a 'point' or 'spot' light, or fixed observer of a 'sun' light
+   * which otherwise follows the map center.
+   * @type {LngLatAlt|undefined}
+   * @private
+   */
+  _lngLatAlt?: LngLatAlt;
+  /**
+   * Sun position last applied to the light, with the observer it was computed for.
+   * @type {{lng: number, lat: number, position: SunPosition}|undefined}
+   * @private
+   */
+  _sunPosition?: { lng: number; lat: number; position: SunPosition };
+  /**
+   * Ambient light of 'style' lights.
+   * @type {AmbientLight|undefined}
+   * @private
+   */
+  _styleAmbientLight?: AmbientLight;
+  /**
+   * Directional light of 'style' lights.
+   * @type {DirectionalLight|undefined}
+   * @private
+   */
+  _styleDirectionLight?: DirectionalLight;
+  /**
+   * Whether the style light turns with the map bearing.
+   * @type {boolean}
+   * @private
+   */
+  _styleViewportAnchor: boolean = true;
+  /**
+   * Position of the style light as radial, azimuthal and polar coordinates.
+   * @type {[number, number, number]}
+   * @private
+   */
+  _stylePosition: [number, number, number] = [...DEFAULT_STYLE_LIGHT.position];
 
 
   /**
@@ -67,18 +293,214 @@ export class ThreeLight {
   constructor(options: ThreeLightOptions) {
     this._light = new Group();
     this._id = this._light.id;
+    this._type = options.type;
+
+    if (options.type !== 'default' && options.type !== 'style') {
+      options.color !== undefined && this._color.set(options.color);
+      this._intensity = options.intensity ?? 1;
+    }
 
     switch (options.type) {
       case 'default':
         this._addDefaultLight();
         break;
       case 'ambient':
-        this._addAmbientLight(options.color, options.intensity);
+        this._addAmbientLight();
         break;
       case 'direction':
-        this._addAmbientLight(options.color, options.intensity);
+        this._direction = options.position;
+        this._directionLight = this._addDirectionLight(options.vector, options.castShadow);
+        break;
+      case 'sun':
+        this._date = options.date ?? new Date();
+        this._lngLatAlt = options.lngLatAlt ? LngLatAlt.convert(options.lngLatAlt) : undefined;
+        this._sunLight = this._addDirectionLight(undefined, options.castShadow);
+        this._updateSun();
+        break;
+      case 'point':
+      case 'spot':
+        this._lngLatAlt = LngLatAlt.convert(options.lngLatAlt);
+        this._range = options.range ?? 0;
+        this._localLight = options.type === 'point'
+          ? this._addPointLight(options.decay)
+          : this._addSpotLight(options.direction, options.decay, options.angle, options.penumbra);
+        break;
+      case 'hemisphere':
+        this._addHemisphereLight(options.groundColor);
         break;
+      case 'style':
+        this._styleAmbientLight = new AmbientLight();
+        this._light.add(this._styleAmbientLight);
+        this._styleDirectionLight = this._addDirectionLight(undefined, options.castShadow);
+        break;
+    }
+
+    this._updateLights();
+  }
+
+
+  /**
+   * Returns the color of the light.
+   * @returns {Color}
+   */
+  getColor(): Color {
+    return this._color.clone();
+  }
+
+
+  /**
+   * Sets the color of the light. For 'hemisphere' lights, this is the sky color.
+   * 'default' and 'style' lights keep their own colors.
+   * @param {ColorRepresentation} color
+   * @returns {this}
+   */
+  setColor(color: ColorRepresentation): this {
+    this._color.set(color);
+    this._updateLights();
+    this._repaint();
+    return this;
+  }
+
+
+  /**
+   * Returns the intensity of the light. For 'default' and 'style' lights, this
+   * is a factor of their own intensities.
+   * @returns {number}
+   */
+  getIntensity(): number {
+    return this._intensity;
+  }
+
+
+  /**
+   * Sets the intensity of the light. For 'default' and 'style' lights, this is
+   * a factor of their own intensities.
+   * @param {number} intensity
+   * @returns {this}
+   */
+  setIntensity(intensity: number): this {
+    this._intensity = intensity;
+    this._updateLights();
+    this._repaint();
+    return this;
+  }
+
+
+  /**
+   * Returns the position of the light: a geographic position for 'point' and
+   * 'spot' lights, a direction in the sky for 'direction' lights, and `null`
+   * otherwise.
+   * @returns {LngLatAlt|ThreeLightDirection|null}
+   */
+  getPosition(): LngLatAlt | ThreeLightDirection | null {
+    if (this._localLight) {
+      return this._lngLatAlt!;
+    }
+    if (this._directionLight) {
+      return this._direction ?? null;
+    }
+    return null;
+  }
+
+
+  /**
+   * Moves the light. 'point' and 'spot' lights take a geographic position, and
+   * 'direction' lights take the direction in the sky they shine from. Other
+   * lights ignore it.
+   * @param {LngLatAltLike|ThreeLightDirection} position
+   * @returns {this}
+   */
+  setPosition(position: LngLatAltLike | ThreeLightDirection): this {
+    if ('azimuth' in position) {
+      if (this._directionLight) {
+        this._direction = position;
+        directionToVector(position, this._directionLight.position)
+          .add(this._directionLight.target.position);
+      }
+    } else if (this._anchor) {
+      this._lngLatAlt = LngLatAlt.convert(position);
+      this._updateAnchor();
+    }
+    this._repaint();
+    return this;
+  }
+
+
+  /**
+   * Returns the direction the cone of a 'spot' light points to.
+   * @returns {ThreeLightDirection|null} Direction, or `null` for other lights.
+   */
+  getDirection(): ThreeLightDirection | null {
+    return this._localLight && 'angle' in this._localLight ? this._direction! : null;
+  }
+
+
+  /**
+   * Points the cone of a 'spot' light. Other lights ignore it.
+   * @param {ThreeLightDirection} direction
+   * @returns {this}
+   */
+  setDirection(direction: ThreeLightDirection): this {
+    if (this._localLight && 'angle' in this._localLight) {
+      this._direction = direction;
+      directionToVector(direction, this._localLight.target.position);
+      this._repaint();
     }
+    return this;
+  }
+
+
+  /**
+   * Returns whether the light is shown.
+   * @returns {boolean}
+   */
+  getVisible(): boolean {
+    return this._light.visible;
+  }
+
+
+  /**
+   * Shows or hides the light.
+   * @param {boolean} visible
+   * @returns {this}
+   */
+  setVisible(visible: boolean): this {
+    this._light.visible = visible;
+    this._repaint();
+    return this;
+  }
+
+
+  /**
+   * Returns the date the sun position is computed for.
+   * @returns {Date}
+   */
+  getDate(): Date {
+    return this._date;
+  }
+
+
+  /**
+   * Sets the date the sun position is computed for. Call it repeatedly, e.g.
+   * from `requestAnimationFrame`, to animate the sun through a day.
+   * Only used by 'sun' lights.
+   * @param {Date} date
+   * @returns {this}
+   */
+  setDate(date: Date): this {
+    this._date = date;
+    this._updateSun(true);
+    this._repaint();
+    return this;
+  }
+
+
+  /**
+   * Returns the sun position currently applied, for 'sun' lights.
+   * @returns {SunPosition|null} Position, or `null` while the observer is unknown.
+   */
+  getSunPosition(): SunPosition | null {
+    return this._sunPosition?.position ?? null;
   }
 
 
@@ -88,14 +510,17 @@ export class ThreeLight {
    * @private
    */
   _addDefaultLight(): void {
-    const ambientLight = new AmbientLight(0xffffff, 0.75);
+    const ambientLight = new AmbientLight(0xffffff);
+    ambientLight.userData.intensityScale = 0.75;
     this._light.add(ambientLight);
 
-    const directionFrontLight = new DirectionalLight(0xffffff, 0.25);
+    const directionFrontLight = new DirectionalLight(0xffffff);
+    directionFrontLight.userData.intensityScale = 0.25;
     directionFrontLight.position.set(-30, 100, -100);
     this._light.add(directionFrontLight);
 
-    const directionBackLight = new DirectionalLight(0xffffff, 0.25);
+    const directionBackLight = new DirectionalLight(0xffffff);
+    directionBackLight.userData.intensityScale = 0.25;
     directionBackLight.position.set(30, 100, 100);
     this._light.add(directionBackLight);
   }
@@ -103,27 +528,289 @@ export class ThreeLight {
 
   /**
    * Adds a single ambient light to the group.
-   * @param {ColorRepresentation} [color] - Color of the light.
-   * @param {number} [intensity] - Light intensity.
    * @private
    */
-  _addAmbientLight(color?: ColorRepresentation, intensity?: number): void {
-    const ambientLight = new AmbientLight(color, intensity);
+  _addAmbientLight(): void {
+    const ambientLight = new AmbientLight();
     this._light.add(ambientLight);
   }
 
 
   /**
-   * Adds a single directional light to the group.
-   * @param {ColorRepresentation} [color] - Color of the light.
-   * @param {number} [intensity] - Light intensity.
+   * Adds a single directional light to the group, shining from the light's
+   * direction if set, or else from the vector.
    * @param {LightVector} [vector] - Optional position vector for the light.
+   * @param {boolean} [castShadow] - Whether the light casts shadows.
+   * @returns {DirectionalLight} The added light.
    * @private
    */
-  _addDirectionLight(color?: ColorRepresentation, intensity?: number, vector?: LightVector): void {
-    const directionLight = new DirectionalLight(color, intensity);
-    vector && directionLight.position.set(vector.x, vector.y, vector.z);
+  _addDirectionLight(vector?: LightVector, castShadow?: boolean): DirectionalLight {
+    const directionLight = new DirectionalLight();
+    if (this._direction) {
+      directionToVector(this._direction, directionLight.position);
+    } else if (vector) {
+      directionLight.position.set(vector.x, vector.y, vector.z);
+    }
+    directionLight.castShadow = !!castShadow;
+    directionLight.shadow.bias = -0.0005;
     this._light.add(directionLight);
+    // Keep the target in the world, so the vector is a direction rather than
+    // a position relative to the map center.
+    this._light.add(directionLight.target);
+    return directionLight;
+  }
+
+
+  /**
+   * Adds a point light at the light's position.
+   * @param {number} [decay] - How fast the light dims with distance.
+   * @returns {PointLight} The added light.
+   * @private
+   */
+  _addPointLight(decay?: number): PointLight {
+    const pointLight = new PointLight(undefined, undefined, undefined, decay);
+    this._addAnchor().add(pointLight);
+    return pointLight;
+  }
+
+
+  /**
+   * Adds a spot light at the light's position, pointing straight down unless
+   * given a direction.
+   * @param {ThreeLightDirection} [direction] - Direction the cone points to.
+   * @param {number} [decay] - How fast the light dims with distance.
+   * @param {number} [angle] - Angle in degrees from the cone's axis to its edge.
+   * @param {number} [penumbra] - Fraction of the cone fading out, from 0 to 1.
+   * @returns {SpotLight} The added light.
+   * @private
+   */
+  _addSpotLight(direction?: ThreeLightDirection, decay?: number, angle?: number, penumbra?: number): SpotLight {
+    const spotLight = new SpotLight(
+      undefined,
+      undefined,
+      undefined,
+      angle !== undefined ? angle * DEG_TO_RAD : undefined,
+      penumbra,
+      decay
+    );
+    // Three.js places spot lights one unit up by default.
+    spotLight.position.set(0, 0, 0);
+    this._direction = direction ?? { azimuth: 0, altitude: -90 };
+    directionToVector(this._direction, spotLight.target.position);
+
+    const anchor = this._addAnchor();
+    anchor.add(spotLight);
+    anchor.add(spotLight.target);
+    return spotLight;
+  }
+
+
+  /**
+   * Adds a hemisphere light shining down from the sky.
+   * @param {ColorRepresentation} [groundColor] - Color of the light from below.
+   * @private
+   */
+  _addHemisphereLight(groundColor?: ColorRepresentation): void {
+    const hemisphereLight = new HemisphereLight(undefined, groundColor);
+    hemisphereLight.position.set(0, 0, 1);
+    this._light.add(hemisphereLight);
+  }
+
+
+  /**
+   * Adds the group placing positioned lights at the light's position.
+   * @returns {Group} The anchor group.
+   * @private
+   */
+  _addAnchor(): Group {
+    this._anchor = new Group();
+    this._light.add(this._anchor);
+    this._updateAnchor();
+    return this._anchor;
+  }
+
+
+  /**
+   * Places the anchor at the light's position, scaled to meters.
+   * @returns {void}
+   * @private
+   */
+  _updateAnchor(): void {
+    if (!this._anchor || !this._lngLatAlt) {
+      return;
+    }
+
+    const { lng, lat, alt } = this._lngLatAlt;
+    this._anchor.position.copy(lngLatToVector3(lng, lat, alt));
+    this._anchor.scale.setScalar(projectedUnitsPerMeter(lat));
+  }
+
+
+  /**
+   * Applies the light's color and intensity to each Three.js light. Lights
+   * may scale their intensity with `userData.intensityScale`.
+   * @returns {void}
+   * @private
+   */
+  _updateLights(): void {
+    this._light.traverse(object => {
+      const light = object as Light;
+      if (!light.isLight) {
+        return;
+      }
+      light.intensity = this._intensity * (light.userData.intensityScale ?? 1);
+      if (this._type !== 'default' && this._type !== 'style' && light !== this._sunLight) {
+        light.color.copy(this._color);
+      }
+    });
+    this._sunPosition && this._updateSun(true);
+  }
+
+
+  /**
+   * Updates the light for the current frame: places positioned lights for the
+   * active projection with their range in scene units, follows the sun, and
+   * turns style lights anchored to the viewport with the map.
+   * @param {CameraAdapter} cameraAdapter - Camera adapter of the current frame.
+   * @returns {void}
+   * @private
+   */
+  _update(cameraAdapter: CameraAdapter): void {
+    this._updateSun();
+    this._updateStyleDirection(cameraAdapter._map.getBearing());
+
+    if (!this._anchor || !this._localLight || !this._lngLatAlt) {
+      return;
+    }
+
+    if (cameraAdapter.projection === 'globe') {
+      const { lng, lat, alt } = this._lngLatAlt;
+      this._anchor.matrixAutoUpdate = false;
+      // Local axes of the mercator world are flipped around Z (see CameraAdapter).
+      cameraAdapter
+        .getGlobeModelMatrix(lng, lat, alt, this._anchor.matrix)
+        .multiply(flipYMatrix);
+    } else {
+      this._anchor.matrixAutoUpdate = true;
+    }
+
+    // Lights are shaded in scene units, so the range and the falloff with
+    // distance are scaled from meters.
+    this._anchor.updateWorldMatrix(true, false);
+    const scenePerMeter = tempScale.setFromMatrixScale(this._anchor.matrixWorld).x;
+    this._localLight.distance = this._range * scenePerMeter;
+    this._localLight.intensity = this._intensity * Math.pow(scenePerMeter, this._localLight.decay);
+  }
+
+
+  /**
+   * Applies the map style's light to 'style' lights. MapLibre shades
+   * fill-extrusions with a constant term of `1 - intensity` and a directional
+   * term of `intensity`, which the ambient and directional lights reproduce.
+   * Values given as expressions fall back to the defaults.
+   * @param {Map} map - Map whose style light to follow.
+   * @returns {void}
+   * @private
+   */
+  _updateStyle(map: Map): void {
+    if (!this._styleAmbientLight || !this._styleDirectionLight || !map.style) {
+      return;
+    }
+
+    const light: LightSpecification = map.getLight() ?? {};
+    const position = Array.isArray(light.position) &&
+      light.position.length === 3 &&
+      light.position.every(value => typeof value === 'number')
+      ? light.position as [number, number, number]
+      : DEFAULT_STYLE_LIGHT.position;
+    const color = typeof light.color === 'string' ? light.color : DEFAULT_STYLE_LIGHT.color;
+    const intensity = typeof light.intensity === 'number' ? light.intensity : DEFAULT_STYLE_LIGHT.intensity;
+
+    this._styleViewportAnchor = (light.anchor ?? DEFAULT_STYLE_LIGHT.anchor) === 'viewport';
+    this._stylePosition = [...position];
+
+    // Three.js divides diffuse light by π, where MapLibre does not.
+    this._styleAmbientLight.userData.intensityScale = Math.PI * (1 - intensity);
+    this._styleDirectionLight.userData.intensityScale = Math.PI * intensity;
+    this._styleAmbientLight.color.setStyle(color);
+    this._styleDirectionLight.color.setStyle(color);
+    this._updateLights();
+    this._updateStyleDirection(map.getBearing());
+  }
+
+
+  /**
+   * Points the directional light of 'style' lights like MapLibre's light,
+   * turned with the map when anchored to the viewport.
+   * @param {number} bearing - Map bearing in degrees.
+   * @returns {void}
+   * @private
+   */
+  _updateStyleDirection(bearing: number): void {
+    if (!this._styleDirectionLight) {
+      return;
+    }
+
+    // Same spherical coordinates as MapLibre, in its east, south, up axes.
+    const [radial, azimuthal, polar] = this._stylePosition;
+    const azimuthalRad = (azimuthal + 90) * DEG_TO_RAD;
+    const polarRad = polar * DEG_TO_RAD;
+    const x = radial * Math.cos(azimuthalRad) * Math.sin(polarRad);
+    const y = radial * Math.sin(azimuthalRad) * Math.sin(polarRad);
+    const z = radial * Math.cos(polarRad);
+
+    const angle = this._styleViewportAnchor ? bearing * DEG_TO_RAD : 0;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    // World axes point west instead of east.
+    this._styleDirectionLight.position
+      .set(-(cos * x - sin * y), sin * x + cos * y, z)
+      .add(this._styleDirectionLight.target.position);
+  }
+
+
+  /**
+   * Points the sun light at the sun's position for the current date, and
+   * adjusts its color and intensity to the sun's altitude. Without a fixed
+   * observer, the sun is seen from the map center, recomputed once the center
+   * moved far enough.
+   * @param {boolean} [force] - Recompute even if the observer did not move.
+   * @returns {void}
+   * @private
+   */
+  _updateSun(force: boolean = false): void {
+    if (!this._sunLight) {
+      return;
+    }
+
+    const observer = this._lngLatAlt ?? this._layer?._map?.getCenter();
+    if (!observer) {
+      return;
+    }
+
+    const prev = this._sunPosition;
+    if (!force && prev &&
+      Math.abs(prev.lng - observer.lng) < SUN_UPDATE_DISTANCE &&
+      Math.abs(prev.lat - observer.lat) < SUN_UPDATE_DISTANCE) {
+      return;
+    }
+
+    const position = getSunPosition(this._date, observer.lng, observer.lat);
+    this._sunPosition = { lng: observer.lng, lat: observer.lat, position };
+
+    // The light shines from its position towards its target, which shadow
+    // fitting may have moved.
+    directionToVector(position, this._sunLight.position).add(this._sunLight.target.position);
+
+    const daylight = clamp(position.altitude / SUN_INTENSITY_ALTITUDE, 0, 1);
+    this._sunLight.visible = position.altitude > 0;
+    this._sunLight.intensity = this._intensity * daylight * daylight * (3 - 2 * daylight);
+    this._sunLight.color.lerpColors(
+      HORIZON_SUN_COLOR,
+      this._color,
+      clamp(position.altitude / SUN_COLOR_ALTITUDE, 0, 1)
+    );
   }
 
 
@@ -135,6 +822,9 @@ export class ThreeLight {
   addTo(threeLayer: ThreeLayer): this {
     this._layer = threeLayer;
     this._layer._addLight(this);
+    this._updateSun();
+    this._layer._map && this._updateStyle(this._layer._map);
+    this._repaint();
     this._layer.fire('addlight', {
       type: 'addlight',
       target: this,
@@ -160,4 +850,14 @@ export class ThreeLight {
   }
 
 
+  /**
+   * Triggers a repaint of the map the light is shown on.
+   * @returns {void}
+   * @private
+   */
+  _repaint(): void {
+    this._layer?._map?.triggerRepaint();
+  }
+
+
 }
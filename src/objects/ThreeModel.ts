@@ -1,21 +1,55 @@
 import type { Popup } from 'maplibre-gl';
-import type { Mesh } from 'three';
-import type { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
-import type { FBXLoader } from 'three/addons/loaders/FBXLoader.js';
-import type { ThreeLayer, ThreeEventArgs } from '../layers/ThreeLayer';
-import { Group } from 'three';
+import type { Mesh, SkinnedMesh, Object3D, AnimationClip, AnimationAction } from 'three';
+import type { ThreeLayer, ThreeEventArgs, ThreeEventType, ThreeEvents } from '../layers/ThreeLayer';
+import type { CameraAdapter } from '../core/CameraAdapter';
+import type { MercatorExtent } from '../core/SpatialIndex';
+import type { ThreeInstance } from './ThreeInstance';
+import { Group, Matrix4, Vector3, Box3, Sphere, Euler, Quaternion, AnimationMixer, LoopOnce, LoopRepeat } from 'three';
 import { LngLatAlt, LngLatAltLike } from '../geometries/LngLatAlt';
-import { lngLatToVector3, projectedUnitsPerMeter } from '../utils';
-import { DEG_TO_RAD } from '../configs';
+import { ThreePathPlayback, ThreePathOptions } from './ThreePathPlayback';
+import { ThreeModelUrlType, ThreeLoadedAsset } from '../core/ThreeLoaderRegistry';
+import { ThreeAssets } from '../core/ThreeAssetCache';
+import {
+  lngLatToVector3,
+  projectedUnitsPerMeter,
+  computeLocalBox,
+  disposeObject,
+  delay,
+  mercatorXFromLng,
+  mercatorYFromLat,
+  lngFromMercatorX,
+  latFromMercatorY,
+  clamp,
+} from '../utils';
+import { DEG_TO_RAD, RAD_TO_DEG, MAX_VALID_LATITUDE, WORLD_SIZE } from '../configs';
+
+
+/**
+ * Types of models loaded from a URL. Extend this interface with declaration
+ * merging to type formats registered with `ThreeLoaders.register`.
+ * - 'gltf': a GLTF model.
+ * - 'fbx': an FBX model.
+ * - 'obj': an OBJ model.
+ * - 'stl': an STL model.
+ * - 'ply': a PLY model.
+ * - 'collada': a Collada model.
+ */
+export interface ThreeModelLoaderTypes {
+  gltf: true;
+  fbx: true;
+  obj: true;
+  stl: true;
+  ply: true;
+  collada: true;
+}
 
 
 /**
  * Type of 3D model.
  * - 'mesh': a pre-existing Three.js Mesh object.
- * - 'gltf': a GLTF model loaded from URL.
- * - 'fbx': an FBX model loaded from URL.
+ * - any type of `ThreeModelLoaderTypes`: a model loaded from URL.
  */
-export type ThreeModelType = 'mesh' | 'gltf' | 'fbx';
+export type ThreeModelType = 'mesh' | keyof ThreeModelLoaderTypes;
 
 
 /**
@@ -38,32 +72,185 @@ export interface ThreeModelRotation {
 }
 
 
+/**
+ * Reference surface for a ThreeModel's altitude.
+ * - 'sea-level': altitude is measured in meters above sea level.
+ * - 'terrain': the model is clamped to the terrain surface and altitude is ignored.
+ * - 'relative-to-terrain': altitude is measured in meters above the terrain surface.
+ */
+export type ThreeModelAltitudeReference = 'sea-level' | 'terrain' | 'relative-to-terrain';
+
+
+/**
+ * Options for playing an animation with `ThreeModel.play`.
+ * - `loop`: whether the animation repeats. Defaults to `true`.
+ * - `timeScale`: playback speed, where `1` is the original speed. Defaults to `1`.
+ * - `crossFade`: duration in seconds to fade in from the animation playing before.
+ */
+export interface ThreeModelAnimationOptions {
+  loop?: boolean;
+  timeScale?: number;
+  crossFade?: number;
+}
+
+
+/**
+ * Options for animated transitions of `setLngLatAlt`, `setRotation` and `setScale`.
+ * - `duration`: duration in milliseconds. Changes apply instantly when omitted or `0`.
+ * - `easing`: function mapping linear progress in [0, 1] to eased progress. Defaults to linear.
+ */
+export interface ThreeModelTransitionOptions {
+  duration?: number;
+  easing?: (t: number) => number;
+}
+
+
+/**
+ * Property of a ThreeModel animated by a transition.
+ */
+export type ThreeModelTransitionProperty = 'lngLatAlt' | 'rotation' | 'scale';
+
+
+/**
+ * State of a running transition.
+ * - `elapsed` / `duration`: elapsed time and duration in seconds.
+ * - `easing`: easing of the transition's progress.
+ * - `update`: applies the value at a given eased progress.
+ */
+export interface ThreeModelTransition {
+  elapsed: number;
+  duration: number;
+  easing: (t: number) => number;
+  update: (t: number) => void;
+}
+
+
+/**
+ * Options to retry failed loads of a ThreeModel.
+ * - `retries`: number of retries after the first failure. Defaults to `3`.
+ * - `delay`: delay in milliseconds before the first retry, doubled before each
+ *   following one. Defaults to `1000`.
+ */
+export interface ThreeModelRetryOptions {
+  retries?: number;
+  delay?: number;
+}
+
+
+/**
+ * A level of detail of a ThreeModel: another representation of the model,
+ * shown while the map zoom and the model's size on screen are in its ranges.
+ * - `url` and `type`, or `mesh`: content of the level. Content from a URL is
+ *   loaded the first time the level applies.
+ * - `minzoom` / `maxzoom`: zoom range the level applies in.
+ * - `minPixelSize` / `maxPixelSize`: range of the model's diameter on screen
+ *   in pixels the level applies in.
+ */
+export type ThreeModelLODOptions = ({
+  url: string;
+  type: Exclude<ThreeModelType, 'mesh'>;
+} | {
+  mesh: Mesh;
+}) & {
+  minzoom?: number;
+  maxzoom?: number;
+  minPixelSize?: number;
+  maxPixelSize?: number;
+}
+
+
+/**
+ * State of a level of detail of a ThreeModel.
+ * - `group`: holds the content of the level, shown while the level is.
+ * - `retained`: whether the model holds a reference to the level's cached asset.
+ * - `controller`: cancels the running load, if any.
+ */
+interface ThreeModelLOD {
+  options: ThreeModelLODOptions;
+  group: Group;
+  state: 'unloaded' | 'loading' | 'loaded' | 'failed';
+  retained: boolean;
+  controller?: AbortController;
+}
+
+
 /**
  * Options to create a ThreeModel.
  * Can be either:
- * - a URL-based model (GLTF or FBX), or
+ * - a URL-based model of a type with a registered loader, or
  * - a pre-existing Three.js Mesh.
  */
 export type ThreeModelOptions = {
   url: string;
   type: Exclude<ThreeModelType, 'mesh'>;
+  retry?: boolean | ThreeModelRetryOptions;
   lngLatAlt?: LngLatAltLike;
   scale?: ThreeModelScale;
   rotation?: ThreeModelRotation;
+  altitudeReference?: ThreeModelAltitudeReference;
+  castShadow?: boolean;
+  receiveShadow?: boolean;
+  lods?: ThreeModelLODOptions[];
 } | {
   mesh: Mesh;
   type: Extract<ThreeModelType, 'mesh'>;
   lngLatAlt?: LngLatAltLike;
   scale?: ThreeModelScale;
   rotation?: ThreeModelRotation;
+  altitudeReference?: ThreeModelAltitudeReference;
+  castShadow?: boolean;
+  receiveShadow?: boolean;
+  lods?: ThreeModelLODOptions[];
 }
 
 
-let gltfLoader: GLTFLoader;
-let fbxLoader: FBXLoader;
+const tempLocalMatrix = new Matrix4();
+const tempLocalScale = new Vector3();
+const tempLocalOrigin = new Vector3();
+const flipYMatrix = new Matrix4().makeRotationZ(Math.PI);
+const tempBoundingSphere = new Sphere();
+const identityMatrix = new Matrix4();
+const tempEuler = new Euler();
+const tempHeadingQuaternion = new Quaternion();
+const upAxis = new Vector3(0, 0, 1);
+const tempQuaternion = new Quaternion();
+
+
+/**
+ * Disposes the skeletons of content cloned from a cached asset, the only
+ * resources the clone does not share with the asset.
+ * @param {Object3D} root - Cloned content.
+ * @returns {void}
+ */
+function disposeSkeletons(root: Object3D): void {
+  root.traverse(child => {
+    if ((child as SkinnedMesh).isSkinnedMesh) {
+      (child as SkinnedMesh).skeleton.dispose();
+    }
+  });
+}
 
 
 export class ThreeModel {
+  /**
+   * Identifier of the GeoJSON feature this object was created from by
+   * `ThreeLayer.setData`, if any.
+   * @type {string|number|undefined}
+   */
+  featureId?: string | number;
+  /**
+   * Properties of the GeoJSON feature this object was created from by
+   * `ThreeLayer.setData`. Empty for objects created by hand.
+   * @type {Record<string, unknown>}
+   */
+  properties: Record<string, unknown> = {};
+  /**
+   * Resolves with the model once its content is loaded, and rejects if the
+   * load fails or is cancelled by `remove`. Replaced when `addTo` restarts a
+   * cancelled load.
+   * @type {Promise<this>}
+   */
+  ready: Promise<this>;
   /**
    * Unique identifier of this Three.js object.
    * @type {number}
@@ -102,6 +289,38 @@ export class ThreeModel {
     y: 0,
     z: 0,
   }
+  /**
+   * Reference surface the altitude is measured from.
+   * @type {ThreeModelAltitudeReference}
+   * @private
+   */
+  _altitudeReference: ThreeModelAltitudeReference = 'sea-level';
+  /**
+   * Terrain elevation in meters at the object's position, including exaggeration.
+   * Only queried for terrain-relative altitude references.
+   * @type {number}
+   * @private
+   */
+  _terrainElevation: number = 0;
+  /**
+   * Whether the meshes of the object cast shadows.
+   * @type {boolean}
+   * @private
+   */
+  _castShadow: boolean = false;
+  /**
+   * Whether the meshes of the object receive shadows.
+   * @type {boolean}
+   * @private
+   */
+  _receiveShadow: boolean = false;
+  /**
+   * Bounding box of the loaded content in the object's local space, in meters
+   * before scale and rotation.
+   * @type {Box3}
+   * @private
+   */
+  _localBox: Box3 = new Box3();
   /**
    * Root Three.js Group containing the object and its children.
    * @type {Group}
@@ -120,12 +339,139 @@ export class ThreeModel {
    * @private
    */
   _popup?: Popup;
+  /**
+   * Event listeners registered on this object.
+   * @type {Partial<ThreeEvents>}
+   * @private
+   */
+  _events: Partial<ThreeEvents> = {};
+  /**
+   * Listeners registered with `once`, removed after their first call.
+   * @type {Partial<ThreeEvents>}
+   * @private
+   */
+  _onceEvents: Partial<ThreeEvents> = {};
+  /**
+   * Animation clips of the loaded content.
+   * @type {AnimationClip[]}
+   * @private
+   */
+  _animations: AnimationClip[] = [];
+  /**
+   * Mixer playing the animation clips, created once content with clips is loaded.
+   * @type {AnimationMixer|undefined}
+   * @private
+   */
+  _mixer?: AnimationMixer;
+  /**
+   * Action of the animation played last.
+   * @type {AnimationAction|undefined}
+   * @private
+   */
+  _action?: AnimationAction;
+  /**
+   * Animation requested before the content finished loading.
+   * @type {{name?: string, options: ThreeModelAnimationOptions}|undefined}
+   * @private
+   */
+  _pendingAnimation?: { name?: string; options: ThreeModelAnimationOptions };
+  /**
+   * Heading in degrees clockwise from north, applied on top of the rotation.
+   * Set by path playback with `orientToPath`.
+   * @type {number}
+   * @private
+   */
+  _heading: number = 0;
+  /**
+   * Playback moving the model along a path, if any.
+   * @type {ThreePathPlayback|undefined}
+   * @private
+   */
+  _pathPlayback?: ThreePathPlayback;
+  /**
+   * Running transitions of the position, rotation, and scale.
+   * @type {Partial<Record<ThreeModelTransitionProperty, ThreeModelTransition>>}
+   * @private
+   */
+  _transitions: Partial<Record<ThreeModelTransitionProperty, ThreeModelTransition>> = {};
+  /**
+   * Type and URL of the cached asset the content is cloned from.
+   * @type {{type: ThreeModelUrlType, url: string}|undefined}
+   * @private
+   */
+  _asset?: { type: ThreeModelUrlType; url: string };
+  /**
+   * Whether the model holds a reference to its cached asset.
+   * @type {boolean}
+   * @private
+   */
+  _assetRetained: boolean = false;
+  /**
+   * Whether the geometries, materials and textures of the mesh content and
+   * mesh levels of detail belong to someone else, such as the template mesh
+   * of `ThreeLayer.setData`, so destroying the model leaves them.
+   * @type {boolean}
+   * @private
+   */
+  _sharedResources: boolean = false;
+  /**
+   * Whether the content finished loading.
+   * @type {boolean}
+   * @private
+   */
+  _loaded: boolean = false;
+  /**
+   * Controller cancelling the running load, if any.
+   * @type {AbortController|undefined}
+   * @private
+   */
+  _loadController?: AbortController;
+  /**
+   * Whether a load was cancelled by `remove`, to restart it on `addTo`.
+   * @type {boolean}
+   * @private
+   */
+  _loadCancelled: boolean = false;
+  /**
+   * Retries of failed loads, and the delay before the first one in milliseconds.
+   * @type {Required<ThreeModelRetryOptions>}
+   * @private
+   */
+  _retry: Required<ThreeModelRetryOptions> = {
+    retries: 0,
+    delay: 1000,
+  }
+  /**
+   * The model's own content, shown while no level of detail is.
+   * @type {Object3D|undefined}
+   * @private
+   */
+  _content?: Object3D;
+  /**
+   * Levels of detail, in the order of `options.lods`.
+   * @type {ThreeModelLOD[]}
+   * @private
+   */
+  _lods: ThreeModelLOD[] = [];
+  /**
+   * Index of the level of detail shown, or `null` for the model's own content.
+   * @type {number|null}
+   * @private
+   */
+  _lod: number | null = null;
+  /**
+   * Index of the level of detail applying to the view, or `null` for the
+   * model's own content. Shown once loaded.
+   * @type {number|null}
+   * @private
+   */
+  _targetLOD: number | null = null;
 
 
   /**
    * Constructs a new ThreeModel instance.
    * Initializes the model's type, scale, rotation, and optional position.
-   * Loads the 3D content based on the specified type ('mesh', 'gltf', or 'fbx').
+   * Loads the 3D content based on the specified type, from a mesh or a URL.
    * @param {ThreeModelOptions} options - Configuration options for the model.
    */
   constructor(options: ThreeModelOptions) {
@@ -139,6 +485,10 @@ export class ThreeModel {
     this._rotation.y = options.rotation?.y || 0;
     this._rotation.z = options.rotation?.z || 0;
 
+    this._altitudeReference = options.altitudeReference ?? 'sea-level';
+    this._castShadow = options.castShadow ?? false;
+    this._receiveShadow = options.receiveShadow ?? false;
+
     this._object = new Group();
     this._object.name = 'ThreeModel';
 
@@ -154,15 +504,35 @@ export class ThreeModel {
       this._rotation.z
     );
 
+    this.on('click', this._modelOnClick);
+
+    this._lods = (options.lods ?? []).map(lodOptions => {
+      const group = new Group();
+      group.name = 'ThreeModelLOD';
+      group.visible = false;
+      this._object.add(group);
+
+      const lod: ThreeModelLOD = { options: lodOptions, group, state: 'unloaded', retained: false };
+      if ('mesh' in lodOptions) {
+        group.add(lodOptions.mesh);
+        lod.state = 'loaded';
+      }
+      return lod;
+    });
+
     switch (options.type) {
       case 'mesh':
         this._loadMesh(options.mesh);
+        this.ready = Promise.resolve(this);
         break;
-      case 'gltf':
-        this._loadGLTF(options.url);
-        break;
-      case 'fbx':
-        this._loadFBX(options.url);
+      default:
+        if (options.retry) {
+          const retry = options.retry === true ? {} : options.retry;
+          this._retry.retries = retry.retries ?? 3;
+          this._retry.delay = retry.delay ?? 1000;
+        }
+        this._asset = { type: options.type, url: options.url };
+        this.ready = this._load();
         break;
     }
   }
@@ -178,29 +548,111 @@ export class ThreeModel {
 
 
   /**
-   * Sets the object's geographical position.
+   * Sets the object's geographical position, cancelling any running position transition.
+   * With a `duration`, the position is interpolated in Mercator space, crossing
+   * the antimeridian the short way, and `transitionend` fires once it arrives.
    * @param {LngLatAltLike} lngLatAlt - Position in LngLatAlt or compatible format.
+   * @param {ThreeModelTransitionOptions} [options] - Duration and easing of the transition.
    * @returns {this}
    */
-  setLngLatAlt(lngLatAlt: LngLatAltLike): this {
-    this._lngLatAlt = LngLatAlt.convert(lngLatAlt);
-    this.setScale(
-      this._scale.x,
-      this._scale.y,
-      this._scale.z
-    );
-    this._object.position.copy(
-      lngLatToVector3(
-        this._lngLatAlt.lng,
-        this._lngLatAlt.lat,
-        this._lngLatAlt.alt
-      )
-    );
+  setLngLatAlt(lngLatAlt: LngLatAltLike, options?: ThreeModelTransitionOptions): this {
+    const to = LngLatAlt.convert(lngLatAlt);
+    const from = this._lngLatAlt;
+
+    if (!from) {
+      this._setLngLatAlt(to);
+      this._startTransition('lngLatAlt', options, () => {});
+      return this;
+    }
+
+    const fromX = mercatorXFromLng(from.lng);
+    const fromY = mercatorYFromLat(from.lat);
+    const deltaX = mercatorXFromLng(to.lng) - fromX;
+    // Take the short way across the antimeridian.
+    const shortDeltaX = deltaX - Math.round(deltaX);
+    const deltaY = mercatorYFromLat(to.lat) - fromY;
+
+    this._startTransition('lngLatAlt', options, t => {
+      if (t === 1) {
+        this._setLngLatAlt(to);
+        return;
+      }
+
+      const x = fromX + shortDeltaX * t;
+      this._setLngLatAlt([
+        lngFromMercatorX(x - Math.floor(x)),
+        latFromMercatorY(fromY + deltaY * t),
+        from.alt + (to.alt - from.alt) * t,
+      ]);
+    });
+    return this;
+  }
+
+
+  /**
+   * Returns the reference surface the altitude is measured from.
+   * @returns {ThreeModelAltitudeReference}
+   */
+  getAltitudeReference(): ThreeModelAltitudeReference {
+    return this._altitudeReference;
+  }
+
+
+  /**
+   * Sets the reference surface the altitude is measured from.
+   * @param {ThreeModelAltitudeReference} altitudeReference - 'sea-level', 'terrain', or 'relative-to-terrain'.
+   * @returns {this}
+   */
+  setAltitudeReference(altitudeReference: ThreeModelAltitudeReference): this {
+    this._altitudeReference = altitudeReference;
+    this._updatePosition();
     this._repaint();
     return this;
   }
 
 
+  /**
+   * Returns whether the object casts shadows.
+   * @returns {boolean}
+   */
+  getCastShadow(): boolean {
+    return this._castShadow;
+  }
+
+
+  /**
+   * Sets whether the object casts shadows while its layer has shadows enabled.
+   * @param {boolean} castShadow
+   * @returns {this}
+   */
+  setCastShadow(castShadow: boolean): this {
+    this._castShadow = castShadow;
+    this._updateShadow();
+    return this;
+  }
+
+
+  /**
+   * Returns whether the object receives shadows.
+   * @returns {boolean}
+   */
+  getReceiveShadow(): boolean {
+    return this._receiveShadow;
+  }
+
+
+  /**
+   * Sets whether the object receives shadows while its layer has shadows enabled.
+   * @param {boolean} receiveShadow
+   * @returns {this}
+   */
+  setReceiveShadow(receiveShadow: boolean): this {
+    this._receiveShadow = receiveShadow;
+    this._updateShadow();
+    return this;
+  }
+
+
   /**
    * Returns the current scale of the object.
    * @returns {ThreeModelScale}
@@ -211,22 +663,22 @@ export class ThreeModel {
 
 
   /**
-   * Sets the object's scale.
+   * Sets the object's scale, cancelling any running scale transition.
+   * With a `duration`, `transitionend` fires once the scale is reached.
    * @param {number} x - Scale on X-axis.
    * @param {number} y - Scale on Y-axis.
    * @param {number} z - Scale on Z-axis.
+   * @param {ThreeModelTransitionOptions} [options] - Duration and easing of the transition.
    * @returns {this}
    */
-  setScale(x: number, y: number, z: number): this {
-    if (this._lngLatAlt) {
-      const latScale = projectedUnitsPerMeter(this._lngLatAlt.lat);
-      this._object.scale.set(
-        x * latScale,
-        y * latScale,
-        z * latScale
-      );
-    }
-    this._repaint();
+  setScale(x: number, y: number, z: number, options?: ThreeModelTransitionOptions): this {
+    const from = this._scale;
+
+    this._startTransition('scale', options, t => this._setScale(
+      from.x + (x - from.x) * t,
+      from.y + (y - from.y) * t,
+      from.z + (z - from.z) * t
+    ));
     return this;
   }
 
@@ -241,23 +693,50 @@ export class ThreeModel {
 
 
   /**
-   * Sets the object's rotation in degrees.
+   * Sets the object's rotation in degrees, cancelling any running rotation transition.
+   * With a `duration`, the rotation turns along the shortest path and
+   * `transitionend` fires once it is reached.
    * @param {number} x - Rotation around X-axis.
    * @param {number} y - Rotation around Y-axis.
    * @param {number} z - Rotation around Z-axis.
+   * @param {ThreeModelTransitionOptions} [options] - Duration and easing of the transition.
    * @returns {this}
    */
-  setRotation(x: number, y: number, z: number): this {
-    this._object.rotation.set(
-      x * DEG_TO_RAD,
-      y * DEG_TO_RAD,
-      z * DEG_TO_RAD
+  setRotation(x: number, y: number, z: number, options?: ThreeModelTransitionOptions): this {
+    const from = this._rotation;
+    const fromQuaternion = new Quaternion().setFromEuler(
+      tempEuler.set(from.x * DEG_TO_RAD, from.y * DEG_TO_RAD, from.z * DEG_TO_RAD)
     );
-    this._repaint();
+    const toQuaternion = new Quaternion().setFromEuler(
+      tempEuler.set(x * DEG_TO_RAD, y * DEG_TO_RAD, z * DEG_TO_RAD)
+    );
+
+    this._startTransition('rotation', options, t => {
+      if (t === 1) {
+        this._setRotation(x, y, z);
+        return;
+      }
+
+      tempEuler.setFromQuaternion(tempQuaternion.slerpQuaternions(fromQuaternion, toQuaternion, t));
+      this._setRotation(
+        tempEuler.x * RAD_TO_DEG,
+        tempEuler.y * RAD_TO_DEG,
+        tempEuler.z * RAD_TO_DEG
+      );
+    });
     return this;
   }
 
 
+  /**
+   * Returns the level of detail shown.
+   * @returns {number|null} Index in `options.lods`, or `null` while the model's own content is shown.
+   */
+  getLOD(): number | null {
+    return this._lod;
+  }
+
+
   /**
    * Returns the popup attached to the model, if any.
    * @returns {Popup|null}
@@ -310,50 +789,587 @@ export class ThreeModel {
 
 
   /**
-   * Adds the model to a ThreeLayer.
-   * @param {ThreeLayer} threeLayer
+   * Returns the animation clips of the loaded content.
+   * Empty until the content is loaded, or if it has no animations.
+   * @returns {AnimationClip[]}
+   */
+  getAnimations(): AnimationClip[] {
+    return this._animations;
+  }
+
+
+  /**
+   * Plays an animation clip, stopping or fading out the one played before.
+   * When called before the content is loaded, playback starts once it is.
+   * @param {string} [name] - Name of the clip. Defaults to the first clip.
+   * @param {ThreeModelAnimationOptions} [options] - Looping, speed, and cross-fade.
    * @returns {this}
    */
-  addTo(threeLayer: ThreeLayer): this {
-    this._layer = threeLayer;
-    this._layer._addObject(this);
-    this._layer.on('click', this._modelOnClick);
-    this._repaint();
+  play(name?: string, options: ThreeModelAnimationOptions = {}): this {
+    if (!this._mixer) {
+      this._pendingAnimation = { name, options };
+      return this;
+    }
+
+    const clip = name === undefined
+      ? this._animations[0]
+      : this._animations.find(animation => animation.name === name);
+
+    if (!clip) {
+      return this;
+    }
+
+    const action = this._mixer.clipAction(clip);
+    const prevAction = this._action;
+
+    action.reset();
+    action.paused = false;
+    action.timeScale = options.timeScale ?? 1;
+    action.clampWhenFinished = options.loop === false;
+    action.setLoop(options.loop === false ? LoopOnce : LoopRepeat, Infinity);
+
+    if (prevAction && prevAction !== action && options.crossFade) {
+      action.play();
+      prevAction.crossFadeTo(action, options.crossFade, false);
+    } else {
+      prevAction !== action && prevAction?.stop();
+      action.play();
+    }
+
+    this._action = action;
+    this._layer?._animateObject(this);
     return this;
   }
 
 
   /**
-   * Removes the model from its layer.
+   * Pauses the current animation.
    * @returns {this}
    */
-  remove(): this {
-    if (this._layer) {
-      this._layer._removeObject(this);
-      this._layer.off('click', this._modelOnClick);
-      this._layer.fire('removeobject', {
-        type: 'removeobject',
-        lngLatAlt: LngLatAlt.convert(this._lngLatAlt!),
-        target: this,
-      });
-      this._layer = undefined;
+  pause(): this {
+    if (this._action) {
+      this._action.paused = true;
+      // Let the layer drop the model from its running animations.
+      this._repaint();
     }
-    this._repaint();
     return this;
   }
 
 
   /**
-   * Internal method to load a mesh object into the group.
-   * @param {Mesh} mesh
-   * @returns {void}
-   * @private
+   * Resumes the current animation after `pause`.
+   * @returns {this}
    */
-  _loadMesh(mesh: Mesh): void {
-    this._object.add(mesh);
-    this._repaint();
-
-    this._layer?.fire('addobject', {
+  resume(): this {
+    if (this._action) {
+      this._action.paused = false;
+      this._layer?._animateObject(this);
+    }
+    return this;
+  }
+
+
+  /**
+   * Stops every animation and resets the model to its rest pose.
+   * @returns {this}
+   */
+  stop(): this {
+    this._pendingAnimation = undefined;
+    this._mixer?.stopAllAction();
+    this._action = undefined;
+    this._repaint();
+    return this;
+  }
+
+
+  /**
+   * Moves the model along a path of coordinates over time, replacing any
+   * path it is currently following. Each segment follows the great circle
+   * between its ends, crossing the antimeridian and the poles the short way.
+   * With `orientToPath`, the model turns to face its direction of travel,
+   * treating its own rotation as facing north.
+   * @param {LngLatAltLike[]} coords - Coordinates of the path.
+   * @param {ThreePathOptions} options - Either `timestamps` or `speed`, plus looping, orientation, and easing.
+   * @returns {ThreePathPlayback} Handle to pause, seek, and listen to the playback.
+   * @throws {Error} When the path has no coordinates, or neither valid timestamps nor a speed are given.
+   */
+  followPath(coords: LngLatAltLike[], options: ThreePathOptions): ThreePathPlayback {
+    this._pathPlayback?.stop();
+    this._pathPlayback = new ThreePathPlayback(this, coords, options);
+    this._layer?._animateObject(this);
+    return this._pathPlayback;
+  }
+
+
+  /**
+   * Registers an event listener on this object. Events fired on the object
+   * bubble up to its layer afterwards.
+   * @param {ThreeEventType} event - Event type.
+   * @param {(args: ThreeEventArgs) => void} callback - Callback function.
+   * @returns {this}
+   */
+  on(event: ThreeEventType, callback: (args: ThreeEventArgs) => void): this {
+    (this._events[event] ??= new Set()).add(callback);
+    return this;
+  }
+
+
+  /**
+   * Registers an event listener that is removed after its first call.
+   * @param {ThreeEventType} event - Event type.
+   * @param {(args: ThreeEventArgs) => void} callback - Callback function.
+   * @returns {this}
+   */
+  once(event: ThreeEventType, callback: (args: ThreeEventArgs) => void): this {
+    (this._onceEvents[event] ??= new Set()).add(callback);
+    return this.on(event, callback);
+  }
+
+
+  /**
+   * Removes a previously registered event listener.
+   * @param {ThreeEventType} event - Event type.
+   * @param {(args: ThreeEventArgs) => void} callback - Callback function.
+   * @returns {this}
+   */
+  off(event: ThreeEventType, callback: (args: ThreeEventArgs) => void): this {
+    this._events[event]?.delete(callback);
+    this._onceEvents[event]?.delete(callback);
+    return this;
+  }
+
+
+  /**
+   * Calls all listeners registered on this object for an event type.
+   * Does not bubble to the layer.
+   * @param {ThreeEventType} event - Event type.
+   * @param {ThreeEventArgs} args - Event arguments.
+   * @returns {this}
+   */
+  fire(event: ThreeEventType, args: ThreeEventArgs): this {
+    this._events[event]?.forEach(callback => {
+      if (this._onceEvents[event]?.delete(callback)) {
+        this._events[event]!.delete(callback);
+      }
+      callback(args);
+    });
+    return this;
+  }
+
+
+  /**
+   * Adds the model to a ThreeLayer, restarting a load cancelled by `remove`.
+   * `addobject` fires once the model is both added and loaded.
+   * @param {ThreeLayer} threeLayer
+   * @returns {this}
+   */
+  addTo(threeLayer: ThreeLayer): this {
+    if (this._loadCancelled) {
+      this.ready = this._load();
+    }
+    this._layer = threeLayer;
+    this._layer._addObject(this);
+    this._layer._animateObject(this);
+    this._updatePosition();
+    this._repaint();
+
+    if (this._loaded) {
+      this._fireAddObject();
+    }
+    return this;
+  }
+
+
+  /**
+   * Removes the model from its layer, cancelling its load. The model keeps
+   * its cached asset until it is destroyed, so it can be added again.
+   * @returns {this}
+   */
+  remove(): this {
+    if (this._loadController) {
+      this._loadController.abort();
+      this._loadController = undefined;
+      this._loadCancelled = true;
+    }
+    if (this._layer) {
+      this._layer._removeObject(this);
+      this._layer._fireObjectEvent(this, {
+        type: 'removeobject',
+        lngLatAlt: LngLatAlt.convert(this._lngLatAlt!),
+        target: this,
+      });
+      this._layer = undefined;
+    }
+    this._lods.forEach(lod => lod.controller?.abort());
+    this._repaint();
+    return this;
+  }
+
+
+  /**
+   * Removes the model and disposes the GPU resources it owns: the geometries,
+   * materials, and textures of a mesh model, or the skeletons of a model
+   * loaded from a URL, whose shared asset is released to the asset cache.
+   * Levels of detail are disposed the same way. The model can't be used afterwards.
+   * @returns {void}
+   */
+  destroy(): void {
+    this.remove();
+    this._loadCancelled = false;
+
+    this.stop();
+    this._mixer?.uncacheRoot(this._mixer.getRoot());
+    this._mixer = undefined;
+    this._animations = [];
+    this._pathPlayback = undefined;
+    this._transitions = {};
+
+    this._popup?.remove();
+    this._popup = undefined;
+
+    this._disposeLODs();
+    this._disposeContent();
+    this._object.clear();
+    this._events = {};
+    this._onceEvents = {};
+  }
+
+
+  /**
+   * Disposes the resources of the loaded content that the model owns. Content
+   * cloned from a cached asset shares everything but its skeletons, and
+   * releases the asset to the cache.
+   * @returns {void}
+   * @private
+   */
+  _disposeContent(): void {
+    if (!this._asset) {
+      !this._sharedResources && disposeObject(this._object);
+      return;
+    }
+
+    disposeSkeletons(this._object);
+    this._releaseAsset();
+  }
+
+
+  /**
+   * Gives the model's reference to its cached asset back to the cache, which
+   * disposes the asset once no other model uses it.
+   * @returns {void}
+   * @private
+   */
+  _releaseAsset(): void {
+    if (this._asset && this._assetRetained) {
+      this._assetRetained = false;
+      ThreeAssets.release(this._asset.type, this._asset.url);
+    }
+  }
+
+
+  /**
+   * Detaches the levels of detail, disposes the resources they own and
+   * releases their cached assets.
+   * @returns {void}
+   * @private
+   */
+  _disposeLODs(): void {
+    this._lods.forEach(lod => {
+      this._object.remove(lod.group);
+      if (!('mesh' in lod.options)) {
+        disposeSkeletons(lod.group);
+      } else if (!this._sharedResources) {
+        disposeObject(lod.group);
+      }
+      if (lod.retained && 'url' in lod.options) {
+        lod.retained = false;
+        ThreeAssets.release(lod.options.type, lod.options.url);
+      }
+    });
+    this._lods = [];
+    this._lod = null;
+    this._targetLOD = null;
+  }
+
+
+  /**
+   * Recomputes the bounding box of the loaded content and re-indexes the
+   * object in its layer.
+   * @returns {void}
+   * @private
+   */
+  _updateLocalBox(): void {
+    computeLocalBox(this._object, this._localBox);
+    this._layer?._invalidateObject(this);
+  }
+
+
+  /**
+   * Returns the horizontal reach of the content from the anchor in meters,
+   * including the object's scale.
+   * @returns {number}
+   * @private
+   */
+  _getRadius(): number {
+    if (this._localBox.isEmpty()) {
+      return 0;
+    }
+
+    this._localBox.getBoundingSphere(tempBoundingSphere);
+    const reach = tempBoundingSphere.center.length() + tempBoundingSphere.radius;
+    return reach * Math.max(Math.abs(this._scale.x), Math.abs(this._scale.y), Math.abs(this._scale.z));
+  }
+
+
+  /**
+   * Returns the bounding sphere of the loaded content in the object's local
+   * space, used for frustum culling.
+   * @param {Sphere} target - Sphere to write the result into.
+   * @returns {Sphere} Bounding sphere. Empty when no content is loaded.
+   * @private
+   */
+  _getBoundingSphere(target: Sphere): Sphere {
+    return this._localBox.getBoundingSphere(target);
+  }
+
+
+  /**
+   * Calls a function for each selectable part of the object with the matrix
+   * placing the loaded content in the object's local space.
+   * @param {(target: ThreeModel|ThreeInstance, matrix: Matrix4) => void} callback
+   * @returns {void}
+   * @private
+   */
+  _forEachTarget(callback: (target: ThreeModel | ThreeInstance, matrix: Matrix4) => void): void {
+    callback(this, identityMatrix);
+  }
+
+
+  /**
+   * Returns the extent covered by the object in normalized Mercator space,
+   * used by the layer's spatial index.
+   * @returns {MercatorExtent|null} Extent, or `null` if the object has no position.
+   * @private
+   */
+  _getMercatorExtent(): MercatorExtent | null {
+    if (!this._lngLatAlt) {
+      return null;
+    }
+
+    const { lng, lat } = this._lngLatAlt;
+    const x = mercatorXFromLng(lng);
+    const y = mercatorYFromLat(clamp(lat, -MAX_VALID_LATITUDE, MAX_VALID_LATITUDE));
+    const radius = this._getRadius() * projectedUnitsPerMeter(lat) / WORLD_SIZE;
+
+    return [x - radius, y - radius, x + radius, y + radius];
+  }
+
+
+  /**
+   * Returns the altitude in meters above sea level the object is rendered at,
+   * resolved against its altitude reference.
+   * @returns {number}
+   * @private
+   */
+  _getRenderAltitude(): number {
+    const alt = this._lngLatAlt?.alt ?? 0;
+
+    switch (this._altitudeReference) {
+      case 'terrain':
+        return this._terrainElevation;
+      case 'relative-to-terrain':
+        return this._terrainElevation + alt;
+      default:
+        return alt;
+    }
+  }
+
+
+  /**
+   * Re-queries the terrain elevation when needed and moves the object to its
+   * resolved altitude.
+   * @returns {void}
+   * @private
+   */
+  _updatePosition(): void {
+    if (!this._lngLatAlt) {
+      return;
+    }
+
+    const { lng, lat } = this._lngLatAlt;
+
+    if (this._altitudeReference !== 'sea-level') {
+      this._terrainElevation = this._layer?._map?.queryTerrainElevation([lng, lat]) ?? 0;
+    }
+
+    this._object.position.copy(
+      lngLatToVector3(lng, lat, this._getRenderAltitude())
+    );
+  }
+
+
+  /**
+   * Updates the object's placement for the camera adapter's active projection.
+   * On the globe, the matrix is rebuilt from the geographic position and the
+   * object is hidden on the far side; on mercator, regular placement resumes.
+   * @param {CameraAdapter} cameraAdapter
+   * @returns {void}
+   * @private
+   */
+  _updateProjection(cameraAdapter: CameraAdapter): void {
+    if (cameraAdapter.projection !== 'globe' || !this._lngLatAlt) {
+      this._object.matrixAutoUpdate = true;
+      this._object.visible = true;
+      return;
+    }
+
+    const { lng, lat } = this._lngLatAlt;
+    const alt = this._getRenderAltitude();
+
+    tempLocalScale.set(this._scale.x, this._scale.y, this._scale.z);
+    // Local axes of the mercator world are flipped around Z (see CameraAdapter).
+    tempLocalMatrix
+      .compose(tempLocalOrigin, this._object.quaternion, tempLocalScale)
+      .premultiply(flipYMatrix);
+
+    this._object.matrixAutoUpdate = false;
+    cameraAdapter
+      .getGlobeModelMatrix(lng, lat, alt, this._object.matrix)
+      .multiply(tempLocalMatrix);
+    this._object.visible = cameraAdapter.isOnVisibleHemisphere(lng, lat, alt);
+  }
+
+
+  /**
+   * Internal method to load a mesh object into the group.
+   * @param {Mesh} mesh
+   * @returns {void}
+   * @private
+   */
+  _loadMesh(mesh: Mesh): void {
+    this._addContent(mesh);
+  }
+
+
+  /**
+   * Starts loading the model's asset. Failures are reported with `error`
+   * events, so the returned promise only rejects for those awaiting it.
+   * @returns {Promise<this>} Promise used as `ready`.
+   * @private
+   */
+  _load(): Promise<this> {
+    const { type, url } = this._asset!;
+    this._loadCancelled = false;
+
+    const ready = this._loadURL(type, url);
+    ready.catch(() => {});
+    return ready;
+  }
+
+
+  /**
+   * Internal method to asynchronously load a model through the asset cache,
+   * holding a reference to the asset until the model is destroyed.
+   * @param {ThreeModelUrlType} type - Type of the model.
+   * @param {string} url - URL of the model.
+   * @returns {Promise<this>}
+   * @private
+   */
+  async _loadURL(type: ThreeModelUrlType, url: string): Promise<this> {
+    const controller = new AbortController();
+    this._loadController = controller;
+
+    try {
+      const asset = await this._acquireAsset(type, url, controller.signal);
+      if (controller.signal.aborted) {
+        ThreeAssets.release(type, url);
+        throw controller.signal.reason;
+      }
+
+      this._assetRetained = true;
+      this._addContent(asset.scene, asset.animations);
+      return this;
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        this._fireError(error);
+      }
+      throw error;
+    } finally {
+      if (this._loadController === controller) {
+        this._loadController = undefined;
+      }
+    }
+  }
+
+
+  /**
+   * Takes a reference to the asset from the asset cache, retrying failed
+   * loads with an exponential backoff.
+   * @param {ThreeModelUrlType} type - Type of the model.
+   * @param {string} url - URL of the model.
+   * @param {AbortSignal} signal - Signal cancelling the load.
+   * @returns {Promise<ThreeLoadedAsset>} Clone of the asset.
+   * @private
+   */
+  async _acquireAsset(type: ThreeModelUrlType, url: string, signal: AbortSignal): Promise<ThreeLoadedAsset> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await ThreeAssets.acquire(type, url, { signal, onProgress: this._modelOnProgress });
+      } catch (error) {
+        if (signal.aborted || attempt >= this._retry.retries) {
+          throw error;
+        }
+      }
+      await delay(this._retry.delay * 2 ** attempt, signal);
+    }
+  }
+
+
+  /**
+   * Internal method to add loaded content into the group and mark it loaded.
+   * @param {Object3D} content - Loaded mesh or model scene.
+   * @param {AnimationClip[]} [animations] - Animation clips of the content.
+   * @returns {void}
+   * @private
+   */
+  _addContent(content: Object3D, animations: AnimationClip[] = content.animations): void {
+    this._content = content;
+    content.visible = this._lod === null;
+    this._object.add(content);
+    this._updateLocalBox();
+    this._updateShadow();
+    this._setAnimations(content, animations);
+    this._repaint();
+    this._setLoaded();
+  }
+
+
+  /**
+   * Marks the content as loaded and fires `load`, then `addobject` if the
+   * model is already on a layer.
+   * @returns {void}
+   * @private
+   */
+  _setLoaded(): void {
+    this._loaded = true;
+    this._fireEvent({
+      type: 'load',
+      target: this,
+    });
+
+    if (this._layer) {
+      this._fireAddObject();
+    }
+  }
+
+
+  /**
+   * Fires `addobject` on the object and its layer.
+   * @returns {void}
+   * @private
+   */
+  _fireAddObject(): void {
+    this._layer?._fireObjectEvent(this, {
       type: 'addobject',
       lngLatAlt: LngLatAlt.convert(this._lngLatAlt!),
       target: this,
@@ -362,53 +1378,373 @@ export class ThreeModel {
 
 
   /**
-   * Internal method to asynchronously load a GLTF model.
-   * @param {string} url - URL of the GLTF model.
-   * @returns {Promise<void>}
+   * Fires `error` on the object and its layer, or logs the error when nobody
+   * listens to it.
+   * @param {unknown} error - Error the load failed with.
+   * @returns {void}
+   * @private
+   */
+  _fireError(error: unknown): void {
+    if (!this._events.error?.size && !this._layer?._events.error.size) {
+      console.error(error);
+      return;
+    }
+
+    this._fireEvent({
+      type: 'error',
+      target: this,
+      error,
+    });
+  }
+
+
+  /**
+   * Fires an event on the object, bubbling up to its layer if it has one.
+   * @param {ThreeEventArgs} args - Event arguments.
+   * @returns {void}
    * @private
    */
-  async _loadGLTF(url: string): Promise<void> {
-    if (!gltfLoader) {
-      const module = await import('three/addons/loaders/GLTFLoader.js');
-      gltfLoader = new module.GLTFLoader();
+  _fireEvent(args: ThreeEventArgs): void {
+    if (this._layer) {
+      this._layer._fireObjectEvent(this, args);
+    } else {
+      this.fire(args.type, args);
     }
+  }
+
 
-    const gltf = await gltfLoader.loadAsync(url);
-    this._object.add(gltf.scene);
+  /**
+   * Applies the shadow settings to every mesh of the object.
+   * @returns {void}
+   * @private
+   */
+  _updateShadow(): void {
+    this._object.traverse(child => {
+      if ((child as Mesh).isMesh) {
+        child.castShadow = this._castShadow;
+        child.receiveShadow = this._receiveShadow;
+      }
+    });
     this._repaint();
+  }
 
-    this._layer?.fire('addobject', {
-      type: 'addobject',
-      lngLatAlt: LngLatAlt.convert(this._lngLatAlt!),
+
+  /**
+   * Creates the animation mixer for loaded content and starts any animation
+   * requested before it was loaded.
+   * @param {Object3D} root - Object the clips animate.
+   * @param {AnimationClip[]} animations - Animation clips.
+   * @returns {void}
+   * @private
+   */
+  _setAnimations(root: Object3D, animations: AnimationClip[]): void {
+    if (!animations.length) {
+      return;
+    }
+
+    this._animations = animations;
+    this._mixer = new AnimationMixer(root);
+
+    if (this._pendingAnimation) {
+      const { name, options } = this._pendingAnimation;
+      this._pendingAnimation = undefined;
+      this.play(name, options);
+    }
+  }
+
+
+  /**
+   * Advances the animation mixer.
+   * @param {number} delta - Elapsed time in seconds.
+   * @returns {boolean} Whether an animation is still running.
+   * @private
+   */
+  _updateAnimation(delta: number): boolean {
+    this._updateTransitions(delta);
+    this._pathPlayback?._update(delta);
+
+    if (this._mixer && this._action) {
+      this._mixer.update(delta);
+    }
+
+    return this._isAnimating();
+  }
+
+
+  /**
+   * Returns whether an animation or path playback is running.
+   * @returns {boolean}
+   * @private
+   */
+  _isAnimating(): boolean {
+    return !!this._action?.isRunning()
+      || !!this._pathPlayback?.isPlaying()
+      || Object.keys(this._transitions).length > 0;
+  }
+
+
+  /**
+   * Starts a transition of a property, replacing the running one.
+   * Applies the change instantly without a duration, or when the model is not
+   * on a layer to animate it.
+   * @param {ThreeModelTransitionProperty} property - Property to animate.
+   * @param {ThreeModelTransitionOptions|undefined} options - Duration and easing of the transition.
+   * @param {(t: number) => void} update - Applies the value at a given eased progress.
+   * @returns {void}
+   * @private
+   */
+  _startTransition(
+    property: ThreeModelTransitionProperty,
+    options: ThreeModelTransitionOptions | undefined,
+    update: (t: number) => void
+  ): void {
+    delete this._transitions[property];
+
+    const duration = options?.duration ?? 0;
+    if (duration <= 0) {
+      update(1);
+      return;
+    }
+
+    if (!this._layer) {
+      update(1);
+      this._fireTransitionEnd(property);
+      return;
+    }
+
+    this._transitions[property] = {
+      elapsed: 0,
+      duration: duration / 1000,
+      easing: options?.easing ?? (t => t),
+      update,
+    };
+    this._layer._animateObject(this);
+  }
+
+
+  /**
+   * Advances running transitions and fires `transitionend` for finished ones.
+   * @param {number} delta - Elapsed time in seconds.
+   * @returns {void}
+   * @private
+   */
+  _updateTransitions(delta: number): void {
+    (Object.keys(this._transitions) as ThreeModelTransitionProperty[]).forEach(property => {
+      const transition = this._transitions[property]!;
+      transition.elapsed += delta;
+
+      if (transition.elapsed < transition.duration) {
+        transition.update(transition.easing(transition.elapsed / transition.duration));
+        return;
+      }
+
+      delete this._transitions[property];
+      transition.update(1);
+      this._fireTransitionEnd(property);
+    });
+  }
+
+
+  /**
+   * Fires `transitionend` on the object and its layer.
+   * @param {ThreeModelTransitionProperty} property - Property whose transition finished.
+   * @returns {void}
+   * @private
+   */
+  _fireTransitionEnd(property: ThreeModelTransitionProperty): void {
+    this._fireEvent({
+      type: 'transitionend',
       target: this,
+      lngLatAlt: this._lngLatAlt,
+      property,
     });
   }
 
 
   /**
-   * Internal method to asynchronously load an FBX model.
-   * @param {string} url - URL of the FBX model.
-   * @returns {Promise<void>}
+   * Picks the first level of detail whose ranges hold the zoom and the size
+   * on screen, loading it the first time it applies. Called by the layer
+   * while the model is visible.
+   * @param {number} zoom - Map zoom.
+   * @param {number} pixelSize - Diameter of the model on screen in pixels.
+   * @returns {void}
+   * @private
+   */
+  _updateLOD(zoom: number, pixelSize: number): void {
+    const index = this._lods.findIndex(({ options }) =>
+      (options.minzoom ?? 0) <= zoom && zoom <= (options.maxzoom ?? Infinity) &&
+      (options.minPixelSize ?? 0) <= pixelSize && pixelSize <= (options.maxPixelSize ?? Infinity)
+    );
+    this._targetLOD = index === -1 ? null : index;
+
+    const lod = this._lods[index];
+    if (lod?.state === 'unloaded') {
+      this._loadLOD(lod);
+    }
+    this._applyLOD();
+  }
+
+
+  /**
+   * Shows the level of detail applying to the view once it is loaded. The
+   * level shown before stays until then, and failed levels fall back to the
+   * model's own content. Fires `lodchange` when the shown level changes.
+   * @returns {void}
    * @private
    */
-  async _loadFBX(url: string): Promise<void> {
-    if (!fbxLoader) {
-      const module = await import('three/addons/loaders/FBXLoader.js');
-      fbxLoader = new module.FBXLoader();
+  _applyLOD(): void {
+    const target = this._targetLOD;
+    const state = target === null ? 'loaded' : this._lods[target].state;
+    if (state !== 'loaded' && state !== 'failed') {
+      return;
     }
 
-    const fbx = await fbxLoader.loadAsync(url);
-    this._object.add(fbx);
+    const lod = state === 'loaded' ? target : null;
+    if (lod === this._lod) {
+      return;
+    }
+
+    this._lod = lod;
+    if (this._content) {
+      this._content.visible = lod === null;
+    }
+    this._lods.forEach((item, i) => item.group.visible = i === lod);
     this._repaint();
 
-    this._layer?.fire('addobject', {
-      type: 'addobject',
-      lngLatAlt: LngLatAlt.convert(this._lngLatAlt!),
+    this._fireEvent({
+      type: 'lodchange',
       target: this,
+      lngLatAlt: this._lngLatAlt,
+      lod,
     });
   }
 
 
+  /**
+   * Loads the content of a level of detail through the asset cache, holding
+   * a reference to the asset until the model is destroyed.
+   * @param {ThreeModelLOD} lod
+   * @returns {Promise<void>}
+   * @private
+   */
+  async _loadLOD(lod: ThreeModelLOD): Promise<void> {
+    const { type, url } = lod.options as { type: ThreeModelUrlType; url: string };
+    const controller = new AbortController();
+    lod.controller = controller;
+    lod.state = 'loading';
+
+    try {
+      const asset = await this._acquireAsset(type, url, controller.signal);
+      if (controller.signal.aborted) {
+        ThreeAssets.release(type, url);
+        throw controller.signal.reason;
+      }
+
+      lod.retained = true;
+      lod.state = 'loaded';
+      lod.group.add(asset.scene);
+      this._updateLocalBox();
+      this._updateShadow();
+    } catch (error) {
+      if (controller.signal.aborted) {
+        lod.state = 'unloaded';
+        return;
+      }
+      lod.state = 'failed';
+      this._fireError(error);
+    } finally {
+      lod.controller = undefined;
+    }
+    this._applyLOD();
+  }
+
+
+  /**
+   * Applies a geographical position without cancelling transitions.
+   * @param {LngLatAltLike} lngLatAlt - Position in LngLatAlt or compatible format.
+   * @returns {void}
+   * @private
+   */
+  _setLngLatAlt(lngLatAlt: LngLatAltLike): void {
+    this._lngLatAlt = LngLatAlt.convert(lngLatAlt);
+    this._setScale(
+      this._scale.x,
+      this._scale.y,
+      this._scale.z
+    );
+    this._updatePosition();
+    this._layer?._invalidateObject(this);
+    this._repaint();
+  }
+
+
+  /**
+   * Applies a scale without cancelling transitions.
+   * @param {number} x - Scale on X-axis.
+   * @param {number} y - Scale on Y-axis.
+   * @param {number} z - Scale on Z-axis.
+   * @returns {void}
+   * @private
+   */
+  _setScale(x: number, y: number, z: number): void {
+    this._scale = { x, y, z };
+    if (this._lngLatAlt) {
+      const latScale = projectedUnitsPerMeter(this._lngLatAlt.lat);
+      this._object.scale.set(
+        x * latScale,
+        y * latScale,
+        z * latScale
+      );
+    }
+    this._layer?._invalidateObject(this);
+    this._repaint();
+  }
+
+
+  /**
+   * Applies a rotation in degrees without cancelling transitions.
+   * @param {number} x - Rotation around X-axis.
+   * @param {number} y - Rotation around Y-axis.
+   * @param {number} z - Rotation around Z-axis.
+   * @returns {void}
+   * @private
+   */
+  _setRotation(x: number, y: number, z: number): void {
+    this._rotation = { x, y, z };
+    this._updateRotation();
+  }
+
+
+  /**
+   * Sets the heading applied on top of the model's rotation.
+   * @param {number} heading - Heading in degrees clockwise from north.
+   * @returns {void}
+   * @private
+   */
+  _setHeading(heading: number): void {
+    this._heading = heading;
+    this._updateRotation();
+  }
+
+
+  /**
+   * Applies the rotation and heading to the Three.js object.
+   * The heading turns the model around the local up axis, after its rotation.
+   * @returns {void}
+   * @private
+   */
+  _updateRotation(): void {
+    tempEuler.set(
+      this._rotation.x * DEG_TO_RAD,
+      this._rotation.y * DEG_TO_RAD,
+      this._rotation.z * DEG_TO_RAD
+    );
+    tempHeadingQuaternion.setFromAxisAngle(upAxis, -this._heading * DEG_TO_RAD);
+    this._object.quaternion.setFromEuler(tempEuler).premultiply(tempHeadingQuaternion);
+    this._repaint();
+  }
+
+
   /**
    * Internal click event handler that toggles popup.
    * @param {ThreeEventArgs} event
@@ -422,6 +1758,22 @@ export class ThreeModel {
   }
 
 
+  /**
+   * Internal handler firing `progress` while the model downloads.
+   * @param {ProgressEvent} event
+   * @returns {void}
+   * @private
+   */
+  _modelOnProgress = (event: ProgressEvent): void => {
+    this._fireEvent({
+      type: 'progress',
+      target: this,
+      loaded: event.loaded,
+      total: event.lengthComputable ? event.total : undefined,
+    });
+  }
+
+
   /**
    * Triggers a repaint of the ThreeLayer map canvas.
    * @returns {void}
@@ -0,0 +1,448 @@
+import type { ThreeModel } from './ThreeModel';
+import { LngLatAlt, LngLatAltLike } from '../geometries/LngLatAlt';
+import { DEG_TO_RAD, RAD_TO_DEG } from '../configs';
+
+
+/**
+ * Options for `ThreeModel.followPath`. Either `timestamps` or `speed` is required.
+ * - `timestamps`: time of each coordinate in milliseconds, e.g. from GPS fixes.
+ *   Only the differences between timestamps matter.
+ * - `speed`: constant speed in meters per second.
+ * - `loop`: whether playback restarts from the first coordinate. Defaults to `false`.
+ * - `orientToPath`: whether the model turns to face its direction of travel.
+ *   The model's own rotation is treated as facing north. Defaults to `true`.
+ * - `easing`: function mapping linear progress in [0, 1] to eased progress.
+ */
+export interface ThreePathOptions {
+  timestamps?: number[];
+  speed?: number;
+  loop?: boolean;
+  orientToPath?: boolean;
+  easing?: (t: number) => number;
+}
+
+
+/**
+ * Supported event types of ThreePathPlayback.
+ * - 'progress': fired on every update of the position.
+ * - 'end': fired when a non-looping playback reaches the last coordinate.
+ */
+export type ThreePathEventType = 'progress' | 'end';
+
+
+/**
+ * Event argument structure passed to ThreePathPlayback event callbacks.
+ */
+export interface ThreePathEventArgs {
+  type: ThreePathEventType;
+  target: ThreePathPlayback;
+  time: number;
+  progress: number;
+  lngLatAlt: LngLatAlt;
+}
+
+
+/**
+ * Controllable playback of a model moving along a timed route, returned by
+ * `ThreeModel.followPath`. It is advanced by the model's layer on every frame.
+ */
+export class ThreePathPlayback {
+  /**
+   * Model moved by this playback. Unset once the playback is stopped.
+   * @type {ThreeModel|undefined}
+   * @private
+   */
+  _model?: ThreeModel;
+  /**
+   * Coordinates of the route.
+   * @type {LngLatAlt[]}
+   * @private
+   */
+  _path: LngLatAlt[];
+  /**
+   * Time of each coordinate in seconds from the start of the route.
+   * @type {number[]}
+   * @private
+   */
+  _times: number[];
+  /**
+   * Whether playback restarts from the first coordinate.
+   * @type {boolean}
+   * @private
+   */
+  _loop: boolean;
+  /**
+   * Whether the model turns to face its direction of travel.
+   * @type {boolean}
+   * @private
+   */
+  _orientToPath: boolean;
+  /**
+   * Easing applied to the progress over the whole route.
+   * @type {(t: number) => number}
+   * @private
+   */
+  _easing: (t: number) => number;
+  /**
+   * Elapsed playback time in seconds.
+   * @type {number}
+   * @private
+   */
+  _time: number = 0;
+  /**
+   * Whether playback is paused.
+   * @type {boolean}
+   * @private
+   */
+  _paused: boolean = false;
+  /**
+   * Heading of the model in degrees clockwise from north.
+   * @type {number}
+   * @private
+   */
+  _heading: number = 0;
+  /**
+   * Collection of registered event listeners.
+   * @type {Record<ThreePathEventType, Set<(args: ThreePathEventArgs) => void>>}
+   * @private
+   */
+  _events: Record<ThreePathEventType, Set<(args: ThreePathEventArgs) => void>> = {
+    progress: new Set(),
+    end: new Set(),
+  }
+
+
+  /**
+   * Constructs a new ThreePathPlayback. Use `ThreeModel.followPath` instead.
+   * @param {ThreeModel} model - Model to move.
+   * @param {LngLatAltLike[]} coords - Coordinates of the route.
+   * @param {ThreePathOptions} options - Timing and orientation of the playback.
+   * @throws {Error} When the route has no coordinates, or neither valid timestamps nor a speed are given.
+   */
+  constructor(model: ThreeModel, coords: LngLatAltLike[], options: ThreePathOptions) {
+    if (!coords.length) {
+      throw new Error('Path must contain at least one coordinate');
+    }
+
+    this._model = model;
+    this._path = coords.map(coord => LngLatAlt.convert(coord));
+    this._loop = options.loop ?? false;
+    this._orientToPath = options.orientToPath ?? true;
+    this._easing = options.easing ?? (t => t);
+
+    if (options.timestamps) {
+      if (options.timestamps.length !== this._path.length) {
+        throw new Error('Path timestamps must match the number of coordinates');
+      }
+      this._times = options.timestamps.map(timestamp => (timestamp - options.timestamps![0]) / 1000);
+    } else if (options.speed && options.speed > 0) {
+      let distance = 0;
+      this._times = this._path.map((coord, i) => {
+        distance += i ? this._path[i - 1].distanceTo(coord) : 0;
+        return distance / options.speed!;
+      });
+    } else {
+      throw new Error('Path requires either `timestamps` or a positive `speed`');
+    }
+
+    this._apply();
+  }
+
+
+  /**
+   * Returns the total duration of the route in seconds.
+   * @returns {number}
+   */
+  getDuration(): number {
+    return this._times[this._times.length - 1];
+  }
+
+
+  /**
+   * Returns the elapsed playback time in seconds.
+   * @returns {number}
+   */
+  getTime(): number {
+    return this._time;
+  }
+
+
+  /**
+   * Returns the playback progress in [0, 1].
+   * @returns {number}
+   */
+  getProgress(): number {
+    const duration = this.getDuration();
+    return duration > 0 ? this._time / duration : 1;
+  }
+
+
+  /**
+   * Returns whether the playback is running.
+   * @returns {boolean}
+   */
+  isPlaying(): boolean {
+    return !!this._model && !this._paused && (this._loop || this._time < this.getDuration());
+  }
+
+
+  /**
+   * Resumes a paused playback, or restarts a finished one.
+   * @returns {this}
+   */
+  play(): this {
+    if (!this._loop && this._time >= this.getDuration()) {
+      this._time = 0;
+    }
+
+    this._paused = false;
+    this._model?._layer?._animateObject(this._model);
+    return this;
+  }
+
+
+  /**
+   * Pauses the playback.
+   * @returns {this}
+   */
+  pause(): this {
+    this._paused = true;
+    // Let the layer drop the model from its running animations, so resuming
+    // after idle time doesn't skip ahead.
+    this._model?._repaint();
+    return this;
+  }
+
+
+  /**
+   * Moves the model to a given time of the route.
+   * @param {number} time - Time in seconds from the start of the route.
+   * @returns {this}
+   */
+  seek(time: number): this {
+    this._time = Math.min(Math.max(time, 0), this.getDuration());
+    this._apply();
+    this._fire('progress');
+    this._model?._layer?._animateObject(this._model);
+    return this;
+  }
+
+
+  /**
+   * Stops the playback and leaves the model at its current position.
+   * @returns {this}
+   */
+  stop(): this {
+    if (this._model?._pathPlayback === this) {
+      this._model._pathPlayback = undefined;
+    }
+    this._model = undefined;
+    return this;
+  }
+
+
+  /**
+   * Registers an event listener for a given event type.
+   * @param {ThreePathEventType} event - Event type.
+   * @param {(args: ThreePathEventArgs) => void} callback - Callback function.
+   * @returns {this}
+   */
+  on(event: ThreePathEventType, callback: (args: ThreePathEventArgs) => void): this {
+    this._events[event].add(callback);
+    return this;
+  }
+
+
+  /**
+   * Removes a previously registered event listener.
+   * @param {ThreePathEventType} event - Event type.
+   * @param {(args: ThreePathEventArgs) => void} callback - Callback function.
+   * @returns {this}
+   */
+  off(event: ThreePathEventType, callback: (args: ThreePathEventArgs) => void): this {
+    this._events[event].delete(callback);
+    return this;
+  }
+
+
+  /**
+   * Advances the playback and moves the model.
+   * @param {number} delta - Elapsed time in seconds.
+   * @returns {boolean} Whether the playback is still running.
+   * @private
+   */
+  _update(delta: number): boolean {
+    if (!this.isPlaying()) {
+      return false;
+    }
+
+    const duration = this.getDuration();
+    this._time += delta;
+
+    const ended = !this._loop && this._time >= duration;
+    if (ended) {
+      this._time = duration;
+    } else if (this._time >= duration) {
+      this._time = duration > 0 ? this._time % duration : 0;
+    }
+
+    this._apply();
+    this._fire('progress');
+
+    if (ended) {
+      this._fire('end');
+    }
+
+    return !ended;
+  }
+
+
+  /**
+   * Moves and turns the model to the position of the current time.
+   * @returns {void}
+   * @private
+   */
+  _apply(): void {
+    if (!this._model) {
+      return;
+    }
+
+    const path = this._path;
+    const duration = this.getDuration();
+    const time = duration > 0 ? this._easing(this._time / duration) * duration : 0;
+
+    let index = 0;
+    while (index < path.length - 2 && time > this._times[index + 1]) {
+      index++;
+    }
+
+    const from = path[index];
+    const to = path[Math.min(index + 1, path.length - 1)];
+    const span = this._times[index + 1] - this._times[index];
+    const t = span > 0 ? Math.min(Math.max((time - this._times[index]) / span, 0), 1) : 1;
+
+    // Follow the great circle, which crosses the antimeridian and the poles
+    // the short way and matches the distances used for `speed`.
+    const [lng, lat] = interpolateGreatCircle(from, to, t);
+    this._model.setLngLatAlt([lng, lat, from.alt + (to.alt - from.alt) * t]);
+
+    if (!this._orientToPath) {
+      return;
+    }
+
+    // Face the end of the segment, or away from its start once there.
+    if (t < 1 && !isSamePosition(lng, lat, to.lng, to.lat)) {
+      this._heading = computeBearing(lng, lat, to.lng, to.lat);
+    } else if (!isSamePosition(from.lng, from.lat, to.lng, to.lat)) {
+      this._heading = computeBearing(to.lng, to.lat, from.lng, from.lat) + 180;
+    }
+    this._model._setHeading(this._heading);
+  }
+
+
+  /**
+   * Calls all listeners registered for an event type.
+   * @param {ThreePathEventType} type - Event type.
+   * @returns {void}
+   * @private
+   */
+  _fire(type: ThreePathEventType): void {
+    const args: ThreePathEventArgs = {
+      type,
+      target: this,
+      time: this._time,
+      progress: this.getProgress(),
+      lngLatAlt: this._model?.getLngLatAlt() ?? this._path[0],
+    };
+    this._events[type].forEach(callback => callback(args));
+  }
+
+
+}
+
+
+/**
+ * Interpolates between two positions along the great circle joining them.
+ * @param {LngLatAlt} from - Start position.
+ * @param {LngLatAlt} to - End position.
+ * @param {number} t - Interpolation factor in [0, 1].
+ * @returns {[number, number]} Longitude and latitude in degrees.
+ */
+function interpolateGreatCircle(from: LngLatAlt, to: LngLatAlt, t: number): [number, number] {
+  const lng1 = from.lng * DEG_TO_RAD;
+  const lat1 = from.lat * DEG_TO_RAD;
+  const lng2 = to.lng * DEG_TO_RAD;
+  const lat2 = to.lat * DEG_TO_RAD;
+
+  const x1 = Math.cos(lat1) * Math.cos(lng1);
+  const y1 = Math.cos(lat1) * Math.sin(lng1);
+  const z1 = Math.sin(lat1);
+  const x2 = Math.cos(lat2) * Math.cos(lng2);
+  const y2 = Math.cos(lat2) * Math.sin(lng2);
+  const z2 = Math.sin(lat2);
+
+  const angle = Math.acos(Math.min(Math.max(x1 * x2 + y1 * y2 + z1 * z2, -1), 1));
+  const sinAngle = Math.sin(angle);
+
+  // Identical or antipodal positions have no unique great circle.
+  if (sinAngle < 1e-12) {
+    return [
+      wrapLng(from.lng + wrapLng(to.lng - from.lng) * t),
+      from.lat + (to.lat - from.lat) * t,
+    ];
+  }
+
+  const a = Math.sin((1 - t) * angle) / sinAngle;
+  const b = Math.sin(t * angle) / sinAngle;
+  const x = a * x1 + b * x2;
+  const y = a * y1 + b * y2;
+  const z = a * z1 + b * z2;
+
+  return [
+    Math.atan2(y, x) * RAD_TO_DEG,
+    Math.atan2(z, Math.hypot(x, y)) * RAD_TO_DEG,
+  ];
+}
+
+
+/**
+ * Computes the initial bearing from one position towards another.
+ * @param {number} lng1 - Longitude of the start in degrees.
+ * @param {number} lat1 - Latitude of the start in degrees.
+ * @param {number} lng2 - Longitude of the end in degrees.
+ * @param {number} lat2 - Latitude of the end in degrees.
+ * @returns {number} Bearing in degrees clockwise from north.
+ */
+function computeBearing(lng1: number, lat1: number, lng2: number, lat2: number): number {
+  const phi1 = lat1 * DEG_TO_RAD;
+  const phi2 = lat2 * DEG_TO_RAD;
+  const deltaLambda = (lng2 - lng1) * DEG_TO_RAD;
+
+  return Math.atan2(
+    Math.sin(deltaLambda) * Math.cos(phi2),
+    Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(deltaLambda)
+  ) * RAD_TO_DEG;
+}
+
+
+/**
+ * Checks whether two positions are practically the same.
+ * @param {number} lng1 - Longitude of the first position in degrees.
+ * @param {number} lat1 - Latitude of the first position in degrees.
+ * @param {number} lng2 - Longitude of the second position in degrees.
+ * @param {number} lat2 - Latitude of the second position in degrees.
+ * @returns {boolean}
+ */
+function isSamePosition(lng1: number, lat1: number, lng2: number, lat2: number): boolean {
+  return Math.abs(lat1 - lat2) < 1e-9 && Math.abs(wrapLng(lng1 - lng2)) * Math.cos(lat1 * DEG_TO_RAD) < 1e-9;
+}
+
+
+/**
+ * Wraps a longitude or longitude difference into [-180, 180).
+ * @param {number} lng - Longitude in degrees.
+ * @returns {number}
+ */
+function wrapLng(lng: number): number {
+  return ((((lng + 180) % 360) + 360) % 360) - 180;
+}
@@ -0,0 +1,839 @@
+import type { ThreeLayer } from '../layers/ThreeLayer';
+import type { CameraAdapter } from '../core/CameraAdapter';
+import type { Object3D } from 'three';
+import { Group, Matrix4, Vector3, Sphere, Box3 } from 'three';
+import { TileContentLoader } from '../core/TileContentLoader';
+import { ThreeLoaders } from '../core/ThreeLoaderRegistry';
+import { LngLatAlt, LngLatAltLike } from '../geometries/LngLatAlt';
+import { RAD_TO_DEG, MAX_VALID_LATITUDE, WGS84_RADIUS } from '../configs';
+import {
+  GeodeticPosition,
+  lngLatAltToEcef,
+  ecefToLngLatAlt,
+  eastNorthUpToEcefMatrix,
+  lngLatToVector3,
+  projectedUnitsPerMeter,
+  disposeObject,
+  estimateMemory,
+  clamp,
+} from '../utils';
+
+
+/**
+ * Bounding volume of a tile, as an oriented box, a sphere, or a geographic
+ * region in radians and meters.
+ */
+export interface ThreeTileBoundingVolume {
+  box?: number[];
+  sphere?: number[];
+  region?: number[];
+}
+
+
+/**
+ * Content reference of a tile. 3D Tiles 1.0 tilesets may use `url`.
+ */
+export interface ThreeTileContentJSON {
+  uri?: string;
+  url?: string;
+}
+
+
+/**
+ * Tile of a 3D Tiles tileset JSON.
+ */
+export interface ThreeTileJSON {
+  boundingVolume: ThreeTileBoundingVolume;
+  geometricError: number;
+  refine?: 'ADD' | 'REPLACE';
+  transform?: number[];
+  content?: ThreeTileContentJSON;
+  contents?: ThreeTileContentJSON[];
+  children?: ThreeTileJSON[];
+}
+
+
+/**
+ * 3D Tiles tileset JSON.
+ */
+export interface ThreeTilesetJSON {
+  asset: {
+    version: string;
+    gltfUpAxis?: 'X' | 'Y' | 'Z';
+  };
+  geometricError: number;
+  root: ThreeTileJSON;
+}
+
+
+/**
+ * Options to create a ThreeTileset.
+ * - `url`: URL of the tileset JSON.
+ * - `origin`: position of the tileset's coordinate origin, for tilesets in
+ *   local east-north-up meters rather than Earth-centered coordinates.
+ * - `maximumScreenSpaceError`: error in pixels above which tiles are refined.
+ * - `maxRequests`: maximum number of tiles loaded at the same time.
+ * - `maxCacheBytes`: memory budget of loaded tiles, above which unused tiles are unloaded.
+ * - `altitudeOffset`: altitude in meters added to the tileset, e.g. to move
+ *   ellipsoid heights to sea level.
+ * - `pointSize`: size in pixels of the points of point clouds.
+ */
+export interface ThreeTilesetOptions {
+  url: string;
+  origin?: LngLatAltLike;
+  maximumScreenSpaceError?: number;
+  maxRequests?: number;
+  maxCacheBytes?: number;
+  altitudeOffset?: number;
+  pointSize?: number;
+}
+
+
+/**
+ * Tile counts and memory of a ThreeTileset.
+ * - `visible`: tiles rendered in the last frame.
+ * - `loaded`: tiles with content in memory.
+ * - `loading`: tiles being requested.
+ * - `cacheBytes`: estimated memory of the loaded tiles.
+ */
+export interface ThreeTilesetStats {
+  visible: number;
+  loaded: number;
+  loading: number;
+  cacheBytes: number;
+}
+
+
+/**
+ * Tile of the tile tree.
+ * - `contentMatrix`: from the tile's coordinates to the east-north-up frame at its anchor.
+ * - `anchor`: geodetic position of the center of the tile's bounding sphere.
+ * - `radius`: radius of the bounding sphere in meters.
+ * - `group`: group holding the content, placed at the anchor.
+ * - `external`: whether the content is a tileset, whose root became the only child.
+ * - `lastUsed`: last frame the tile was visible or requested in.
+ * - `distance` / `screenSpaceError`: view of the tile in the frame it was last visible in.
+ */
+interface Tile {
+  parent?: Tile;
+  children: Tile[];
+  depth: number;
+  refine: 'ADD' | 'REPLACE';
+  geometricError: number;
+  transform: Matrix4;
+  contentMatrix: Matrix4;
+  anchor: GeodeticPosition;
+  radius: number;
+  urls: string[];
+  state: 'unloaded' | 'loading' | 'loaded' | 'failed';
+  group: Group;
+  external: boolean;
+  controller?: AbortController;
+  bytes: number;
+  lastUsed: number;
+  distance: number;
+  screenSpaceError: number;
+}
+
+
+/**
+ * Radius in meters above which tiles are too large to be placed in a single
+ * east-north-up frame. On Mercator they are always refined, on the globe they
+ * are never culled by the horizon.
+ */
+const LARGE_TILE_RADIUS = WGS84_RADIUS / 10;
+
+
+const flipYMatrix = new Matrix4().makeRotationZ(Math.PI);
+const tempMatrix = new Matrix4();
+const tempSceneMatrix = new Matrix4();
+const tempSphere = new Sphere();
+const tempBox = new Box3();
+const tempPoint = new Vector3();
+const tempAxisX = new Vector3();
+const tempAxisY = new Vector3();
+const tempAxisZ = new Vector3();
+
+
+/**
+ * Computes the Earth-centered bounding sphere of a tile.
+ * @param {ThreeTileBoundingVolume} volume - Bounding volume of the tile.
+ * @param {Matrix4} transform - Matrix from the tile's coordinates to Earth-centered coordinates.
+ * @param {Sphere} target - Sphere to write the result into.
+ * @returns {Sphere}
+ */
+function getBoundingSphere(volume: ThreeTileBoundingVolume, transform: Matrix4, target: Sphere): Sphere {
+  if (volume.region) {
+    // Regions are already Earth-centered, so they are sampled and bounded.
+    const [west, south, regionEast, north, minHeight, maxHeight] = volume.region;
+    const east = regionEast < west ? regionEast + Math.PI * 2 : regionEast;
+
+    tempBox.makeEmpty();
+    for (let i = 0; i <= 4; i++) {
+      for (let j = 0; j <= 4; j++) {
+        const lng = (west + (east - west) * i / 4) * RAD_TO_DEG;
+        const lat = (south + (north - south) * j / 4) * RAD_TO_DEG;
+        tempBox.expandByPoint(lngLatAltToEcef(lng, lat, minHeight, tempPoint));
+        tempBox.expandByPoint(lngLatAltToEcef(lng, lat, maxHeight, tempPoint));
+      }
+    }
+    return tempBox.getBoundingSphere(target);
+  }
+
+  if (volume.sphere) {
+    target.center.fromArray(volume.sphere);
+    target.radius = volume.sphere[3];
+  } else if (volume.box) {
+    const box = volume.box;
+    tempAxisX.fromArray(box, 3);
+    tempAxisY.fromArray(box, 6);
+    tempAxisZ.fromArray(box, 9);
+
+    // Farthest corner of the oriented box.
+    target.center.fromArray(box);
+    target.radius = Math.max(
+      tempPoint.copy(tempAxisX).add(tempAxisY).add(tempAxisZ).length(),
+      tempPoint.copy(tempAxisX).add(tempAxisY).sub(tempAxisZ).length(),
+      tempPoint.copy(tempAxisX).sub(tempAxisY).add(tempAxisZ).length(),
+      tempPoint.copy(tempAxisX).sub(tempAxisY).sub(tempAxisZ).length()
+    );
+  } else {
+    throw new Error('Tile has no supported bounding volume');
+  }
+
+  return target.applyMatrix4(transform);
+}
+
+
+/**
+ * Streams an OGC 3D Tiles tileset into a ThreeLayer. Tiles are refined by
+ * their screen-space error from the layer's camera, loaded within a request
+ * budget, and kept in a memory cache that unloads the least recently used
+ * tiles. Each tile is placed in an east-north-up frame at its center, so
+ * Earth-centered tiles follow both the Mercator map and the globe.
+ */
+export class ThreeTileset {
+  /**
+   * Promise resolved once the tileset JSON is loaded, or rejected if it failed to.
+   * @type {Promise<this>}
+   */
+  ready: Promise<this>;
+  /**
+   * Group holding the visible tiles.
+   * @type {Group}
+   * @private
+   */
+  _object: Group;
+  /**
+   * Unique identifier of the tileset.
+   * @type {number}
+   * @private
+   */
+  _id: number;
+  /**
+   * Layer the tileset is added to.
+   * @type {ThreeLayer|undefined}
+   * @private
+   */
+  _layer?: ThreeLayer;
+  /**
+   * URL of the tileset JSON.
+   * @type {string}
+   * @private
+   */
+  _url: string;
+  /**
+   * Loader fetching and parsing tile content.
+   * @type {TileContentLoader}
+   * @private
+   */
+  _loader: TileContentLoader;
+  /**
+   * Matrix from the tileset's coordinates to Earth-centered coordinates.
+   * @type {Matrix4}
+   * @private
+   */
+  _rootTransform: Matrix4 = new Matrix4();
+  /**
+   * Root of the tile tree, once the tileset JSON is loaded.
+   * @type {Tile|undefined}
+   * @private
+   */
+  _root?: Tile;
+  /**
+   * Screen-space error in pixels above which tiles are refined.
+   * @type {number}
+   * @private
+   */
+  _maximumScreenSpaceError: number;
+  /**
+   * Maximum number of tiles loaded at the same time.
+   * @type {number}
+   * @private
+   */
+  _maxRequests: number;
+  /**
+   * Memory budget of loaded tiles in bytes.
+   * @type {number}
+   * @private
+   */
+  _maxCacheBytes: number;
+  /**
+   * Altitude in meters added to the tileset.
+   * @type {number}
+   * @private
+   */
+  _altitudeOffset: number;
+  /**
+   * Estimated memory of the loaded tiles in bytes.
+   * @type {number}
+   * @private
+   */
+  _cacheBytes: number = 0;
+  /**
+   * Number of the current frame, ordering tile use.
+   * @type {number}
+   * @private
+   */
+  _frame: number = 0;
+  /**
+   * Pixels per unit of error at a unit distance from the camera.
+   * @type {number}
+   * @private
+   */
+  _sseFactor: number = 1;
+  /**
+   * Camera position in scene space.
+   * @type {Vector3}
+   * @private
+   */
+  _cameraPosition: Vector3 = new Vector3();
+  /**
+   * Tiles rendered in the current frame.
+   * @type {Set<Tile>}
+   * @private
+   */
+  _visibleTiles: Set<Tile> = new Set();
+  /**
+   * Tiles with content in memory.
+   * @type {Set<Tile>}
+   * @private
+   */
+  _loadedTiles: Set<Tile> = new Set();
+  /**
+   * Tiles being requested.
+   * @type {Set<Tile>}
+   * @private
+   */
+  _loadingTiles: Set<Tile> = new Set();
+  /**
+   * Tiles to request, collected while traversing the tree.
+   * @type {Set<Tile>}
+   * @private
+   */
+  _requestedTiles: Set<Tile> = new Set();
+
+
+  /**
+   * Creates a tileset and starts loading its tileset JSON.
+   * @param {ThreeTilesetOptions} options - Options to create the tileset.
+   */
+  constructor(options: ThreeTilesetOptions) {
+    this._object = new Group();
+    this._object.name = 'ThreeTileset';
+    this._id = this._object.id;
+    this._url = options.url;
+    this._maximumScreenSpaceError = options.maximumScreenSpaceError ?? 16;
+    this._maxRequests = options.maxRequests ?? 6;
+    this._maxCacheBytes = options.maxCacheBytes ?? 256 * 1024 * 1024;
+    this._altitudeOffset = options.altitudeOffset ?? 0;
+    this._loader = new TileContentLoader(ThreeLoaders, {
+      gltfUpAxis: 'Y',
+      pointSize: options.pointSize ?? 2,
+    });
+
+    if (options.origin) {
+      const { lng, lat, alt } = LngLatAlt.convert(options.origin);
+      eastNorthUpToEcefMatrix(lng, lat, alt ?? 0, this._rootTransform);
+    }
+
+    this.ready = this._loadTileset();
+    this.ready.catch(() => {});
+  }
+
+
+  /**
+   * Adds the tileset to a ThreeLayer.
+   * @param {ThreeLayer} threeLayer - Layer to add the tileset to.
+   * @returns {this}
+   */
+  addTo(threeLayer: ThreeLayer): this {
+    this.remove();
+    this._layer = threeLayer;
+    this._layer._addTileset(this);
+    this._layer._map?.triggerRepaint();
+    return this;
+  }
+
+
+  /**
+   * Removes the tileset from its layer and cancels pending tile requests.
+   * Loaded tiles stay cached until the tileset is destroyed.
+   * @returns {this}
+   */
+  remove(): this {
+    this._loadingTiles.forEach(tile => tile.controller?.abort());
+    if (this._layer) {
+      this._layer._removeTileset(this);
+      this._layer._map?.triggerRepaint();
+      this._layer = undefined;
+    }
+    return this;
+  }
+
+
+  /**
+   * Removes the tileset and disposes the GPU resources of its loaded tiles.
+   * @returns {void}
+   */
+  destroy(): void {
+    this.remove();
+    this._loadedTiles.forEach(tile => this._unloadTile(tile));
+    this._visibleTiles.clear();
+    this._object.clear();
+  }
+
+
+  /**
+   * Gets the screen-space error in pixels above which tiles are refined.
+   * @returns {number}
+   */
+  getMaximumScreenSpaceError(): number {
+    return this._maximumScreenSpaceError;
+  }
+
+
+  /**
+   * Sets the screen-space error in pixels above which tiles are refined.
+   * Lower values load more detailed tiles.
+   * @param {number} maximumScreenSpaceError - Error in pixels.
+   * @returns {this}
+   */
+  setMaximumScreenSpaceError(maximumScreenSpaceError: number): this {
+    this._maximumScreenSpaceError = maximumScreenSpaceError;
+    this._layer?._map?.triggerRepaint();
+    return this;
+  }
+
+
+  /**
+   * Gets the center of the root tile's bounding volume, e.g. to move the map to the tileset.
+   * @returns {LngLatAlt|null} Center, or `null` until the tileset JSON is loaded.
+   */
+  getCenter(): LngLatAlt | null {
+    if (!this._root) {
+      return null;
+    }
+
+    const { lng, lat, alt } = this._root.anchor;
+    return new LngLatAlt(lng, lat, alt + this._altitudeOffset);
+  }
+
+
+  /**
+   * Gets the tile counts and memory of the tileset.
+   * @returns {ThreeTilesetStats}
+   */
+  getStats(): ThreeTilesetStats {
+    return {
+      visible: this._visibleTiles.size,
+      loaded: this._loadedTiles.size,
+      loading: this._loadingTiles.size,
+      cacheBytes: this._cacheBytes,
+    };
+  }
+
+
+  /**
+   * Selects the tiles to render for the camera, requests missing tiles and
+   * unloads unused ones. Called by the layer once per frame.
+   * @param {CameraAdapter} cameraAdapter
+   * @returns {void}
+   * @private
+   */
+  _update(cameraAdapter: CameraAdapter): void {
+    if (!this._root) {
+      return;
+    }
+
+    this._frame++;
+    this._sseFactor = cameraAdapter.getFocalLength();
+    cameraAdapter.getCameraPosition(this._cameraPosition);
+
+    const visibleTiles = this._visibleTiles;
+    this._visibleTiles = new Set();
+    this._requestedTiles.clear();
+    this._traverse(this._root, cameraAdapter);
+
+    visibleTiles.forEach(tile => !this._visibleTiles.has(tile) && this._object.remove(tile.group));
+    this._visibleTiles.forEach(tile => tile.group.parent !== this._object && this._object.add(tile.group));
+
+    // Tiles that left the view give their request slots to the visible ones.
+    this._loadingTiles.forEach(tile => tile.lastUsed < this._frame && tile.controller?.abort());
+    [...this._requestedTiles]
+      .sort((a, b) => a.depth - b.depth || a.distance - b.distance)
+      .slice(0, Math.max(this._maxRequests - this._loadingTiles.size, 0))
+      .forEach(tile => this._loadTile(tile));
+
+    this._unloadTiles();
+  }
+
+
+  /**
+   * Selects the tiles of a subtree to render, refining tiles whose
+   * screen-space error is too large. Replaced tiles stay visible until all
+   * visible children are ready, so refining never leaves holes.
+   * @param {Tile} tile - Root of the subtree.
+   * @param {CameraAdapter} cameraAdapter
+   * @returns {void}
+   * @private
+   */
+  _traverse(tile: Tile, cameraAdapter: CameraAdapter): void {
+    if (!this._updateTileView(tile, cameraAdapter)) {
+      return;
+    }
+    tile.lastUsed = this._frame;
+
+    const refine = tile.children.length > 0 &&
+      (tile.external || tile.screenSpaceError > this._maximumScreenSpaceError);
+    if (!refine) {
+      this._selectTile(tile);
+      return;
+    }
+
+    if (tile.refine === 'ADD') {
+      this._selectTile(tile);
+      tile.children.forEach(child => this._traverse(child, cameraAdapter));
+      return;
+    }
+
+    const visibleChildren = tile.children.filter(child => this._updateTileView(child, cameraAdapter));
+    if (visibleChildren.every(child => this._isTileReady(child, cameraAdapter))) {
+      visibleChildren.forEach(child => this._traverse(child, cameraAdapter));
+    } else {
+      this._selectTile(tile);
+      visibleChildren.forEach(child => this._requestTile(child, cameraAdapter));
+    }
+  }
+
+
+  /**
+   * Places a tile for the active projection and computes its view.
+   * @param {Tile} tile
+   * @param {CameraAdapter} cameraAdapter
+   * @returns {boolean} Whether the tile is in view.
+   * @private
+   */
+  _updateTileView(tile: Tile, cameraAdapter: CameraAdapter): boolean {
+    const { lng, lat } = tile.anchor;
+    const alt = tile.anchor.alt + this._altitudeOffset;
+    const radius = tile.radius;
+    const matrix = tile.group.matrix;
+
+    if (cameraAdapter.projection === 'globe') {
+      cameraAdapter.getGlobeModelMatrix(lng, lat, alt, matrix);
+      if (radius < LARGE_TILE_RADIUS && !cameraAdapter.isOnVisibleHemisphere(lng, lat, alt)) {
+        return false;
+      }
+    } else {
+      // Local axes of the mercator world are flipped around Z (see CameraAdapter).
+      const clampedLat = clamp(lat, -MAX_VALID_LATITUDE, MAX_VALID_LATITUDE);
+      const position = lngLatToVector3(lng, clampedLat, alt);
+      const scale = projectedUnitsPerMeter(clampedLat);
+      matrix
+        .makeScale(scale, scale, scale)
+        .premultiply(tempMatrix.makeTranslation(position.x, position.y, position.z))
+        .multiply(flipYMatrix);
+
+      if (radius >= LARGE_TILE_RADIUS) {
+        tile.distance = 0;
+        tile.screenSpaceError = Infinity;
+        return true;
+      }
+    }
+
+    tempSceneMatrix.multiplyMatrices(cameraAdapter._world.matrix, matrix);
+    const scenePerMeter = tempSceneMatrix.getMaxScaleOnAxis();
+    tempSphere.center.setFromMatrixPosition(tempSceneMatrix);
+    tempSphere.radius = radius * scenePerMeter;
+    if (!cameraAdapter.frustum.intersectsSphere(tempSphere)) {
+      return false;
+    }
+
+    tile.distance = Math.max(tempSphere.distanceToPoint(this._cameraPosition), 0);
+    tile.screenSpaceError = tile.distance > 0
+      ? tile.geometricError * scenePerMeter * this._sseFactor / tile.distance
+      : Infinity;
+    return true;
+  }
+
+
+  /**
+   * Checks whether a tile can replace its parent: its content is loaded, or
+   * it is empty and its visible children are ready. Failed tiles count as
+   * ready, so they do not hold their parent back.
+   * @param {Tile} tile
+   * @param {CameraAdapter} cameraAdapter
+   * @returns {boolean}
+   * @private
+   */
+  _isTileReady(tile: Tile, cameraAdapter: CameraAdapter): boolean {
+    if (tile.state === 'failed') {
+      return true;
+    }
+    if (tile.state !== 'loaded') {
+      return false;
+    }
+    if (tile.group.children.length || !tile.children.length) {
+      return true;
+    }
+    return tile.children.every(child => !this._updateTileView(child, cameraAdapter) || this._isTileReady(child, cameraAdapter));
+  }
+
+
+  /**
+   * Renders a tile in the current frame, requesting it if it is not loaded.
+   * @param {Tile} tile
+   * @returns {void}
+   * @private
+   */
+  _selectTile(tile: Tile): void {
+    tile.lastUsed = this._frame;
+    if (tile.state === 'unloaded') {
+      this._requestedTiles.add(tile);
+    } else if (tile.state === 'loaded' && tile.group.children.length) {
+      this._visibleTiles.add(tile);
+    }
+  }
+
+
+  /**
+   * Requests a tile, or the visible children of an empty tile, without
+   * rendering it.
+   * @param {Tile} tile
+   * @param {CameraAdapter} cameraAdapter
+   * @returns {void}
+   * @private
+   */
+  _requestTile(tile: Tile, cameraAdapter: CameraAdapter): void {
+    tile.lastUsed = this._frame;
+    if (tile.state === 'unloaded') {
+      this._requestedTiles.add(tile);
+    } else if (tile.state === 'loaded' && !tile.group.children.length) {
+      tile.children.forEach(child => {
+        this._updateTileView(child, cameraAdapter) && this._requestTile(child, cameraAdapter);
+      });
+    }
+  }
+
+
+  /**
+   * Unloads the least recently used tiles until the cache fits its budget.
+   * Tiles used in the current frame are kept.
+   * @returns {void}
+   * @private
+   */
+  _unloadTiles(): void {
+    if (this._cacheBytes <= this._maxCacheBytes) {
+      return;
+    }
+
+    const tiles = [...this._loadedTiles]
+      .filter(tile => tile.lastUsed < this._frame)
+      .sort((a, b) => a.lastUsed - b.lastUsed);
+    for (const tile of tiles) {
+      if (this._cacheBytes <= this._maxCacheBytes) {
+        break;
+      }
+      this._unloadTile(tile);
+    }
+  }
+
+
+  /**
+   * Disposes the content of a tile, so it is requested again when needed.
+   * @param {Tile} tile
+   * @returns {void}
+   * @private
+   */
+  _unloadTile(tile: Tile): void {
+    this._object.remove(tile.group);
+    disposeObject(tile.group);
+    tile.group.clear();
+    tile.state = 'unloaded';
+    this._cacheBytes -= tile.bytes;
+    tile.bytes = 0;
+    this._loadedTiles.delete(tile);
+  }
+
+
+  /**
+   * Loads the tileset JSON and builds the tile tree.
+   * @returns {Promise<this>} Promise used as `ready`.
+   * @private
+   */
+  async _loadTileset(): Promise<this> {
+    try {
+      const tileset = await this._loader.loadTileset(this._url);
+      this._loader._options.gltfUpAxis = tileset.asset?.gltfUpAxis ?? 'Y';
+      this._root = this._createTile(tileset.root, undefined, this._url);
+    } catch (error) {
+      this._fireError(error);
+      throw error;
+    }
+
+    this._layer?.fire('load', {
+      type: 'load',
+      target: this,
+    });
+    this._layer?._map?.triggerRepaint();
+    return this;
+  }
+
+
+  /**
+   * Loads the content of a tile. Tilesets referenced as content become the
+   * child of the tile.
+   * @param {Tile} tile
+   * @returns {Promise<void>}
+   * @private
+   */
+  async _loadTile(tile: Tile): Promise<void> {
+    const controller = new AbortController();
+    tile.controller = controller;
+    tile.state = 'loading';
+    this._loadingTiles.add(tile);
+
+    try {
+      const contents = await Promise.all(
+        tile.urls.map(url => this._loader.load(url, tile.contentMatrix, controller.signal))
+      );
+      if (controller.signal.aborted) {
+        contents.forEach(content => 'root' in content || disposeObject(content));
+        throw controller.signal.reason;
+      }
+
+      contents.forEach((content, i) => {
+        if ('root' in content) {
+          tile.children.push(this._createTile(content.root, tile, tile.urls[i]));
+          tile.external = true;
+        } else {
+          tile.group.add(content);
+        }
+      });
+      tile.state = 'loaded';
+
+      if (tile.group.children.length) {
+        const { geometryBytes, textureBytes } = estimateMemory([tile.group]);
+        tile.bytes = geometryBytes + textureBytes;
+        this._cacheBytes += tile.bytes;
+        this._loadedTiles.add(tile);
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        tile.state = 'unloaded';
+      } else {
+        tile.state = 'failed';
+        this._fireError(error);
+      }
+    } finally {
+      tile.controller = undefined;
+      this._loadingTiles.delete(tile);
+      this._layer?._map?.triggerRepaint();
+    }
+  }
+
+
+  /**
+   * Creates a tile and its subtree from tileset JSON.
+   * @param {ThreeTileJSON} json - Tile JSON.
+   * @param {Tile|undefined} parent - Parent tile, or `undefined` for the root.
+   * @param {string} baseUrl - URL of the tileset JSON, resolving content URIs.
+   * @returns {Tile}
+   * @private
+   */
+  _createTile(json: ThreeTileJSON, parent: Tile | undefined, baseUrl: string): Tile {
+    const transform = new Matrix4();
+    json.transform && transform.fromArray(json.transform);
+    transform.premultiply(parent ? parent.transform : this._rootTransform);
+
+    const sphere = getBoundingSphere(json.boundingVolume, transform, new Sphere());
+    const anchor = ecefToLngLatAlt(sphere.center);
+    const contentMatrix = eastNorthUpToEcefMatrix(anchor.lng, anchor.lat, anchor.alt)
+      .invert()
+      .multiply(transform);
+
+    // Content entries without a URI have nothing to load, so they are skipped.
+    const urls = (json.contents ?? (json.content ? [json.content] : []))
+      .map(content => content.uri ?? content.url)
+      .filter((uri): uri is string => !!uri)
+      .map(uri => this._loader.resolveUrl(uri, baseUrl));
+    const group = new Group();
+    group.matrixAutoUpdate = false;
+
+    const tile: Tile = {
+      parent,
+      children: [],
+      depth: parent ? parent.depth + 1 : 0,
+      refine: (json.refine?.toUpperCase() as Tile['refine'] | undefined) ?? parent?.refine ?? 'REPLACE',
+      geometricError: json.geometricError,
+      transform,
+      contentMatrix,
+      anchor,
+      radius: sphere.radius,
+      urls,
+      state: urls.length ? 'unloaded' : 'loaded',
+      group,
+      external: false,
+      bytes: 0,
+      lastUsed: -1,
+      distance: 0,
+      screenSpaceError: 0,
+    };
+    tile.children = (json.children ?? []).map(child => this._createTile(child, tile, baseUrl));
+    return tile;
+  }
+
+
+  /**
+   * Reports a failed load with an `error` event on the layer, or logs it
+   * when nothing listens.
+   * @param {unknown} error
+   * @returns {void}
+   * @private
+   */
+  _fireError(error: unknown): void {
+    if (!this._layer?._events.error.size) {
+      console.error(error);
+      return;
+    }
+
+    this._layer.fire('error', {
+      type: 'error',
+      target: this,
+      error,
+    });
+  }
+
+
+  /**
+   * Gets the groups of the loaded tiles, including those out of view.
+   * @returns {Object3D[]}
+   * @private
+   */
+  _getLoadedObjects(): Object3D[] {
+    return [...this._loadedTiles].map(tile => tile.group);
+  }
+
+
+}
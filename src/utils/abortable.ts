@@ -0,0 +1,36 @@
+/**
+ * Waits for a promise, rejecting with the reason of the signal as soon as it
+ * aborts. The promise itself keeps running.
+ * @param {Promise<T>} promise - Promise to wait for.
+ * @param {AbortSignal} [signal] - Signal cancelling the wait.
+ * @returns {Promise<T>}
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+
+/**
+ * Waits for a delay, rejecting with the reason of the signal if it aborts first.
+ * @param {number} ms - Delay in milliseconds.
+ * @param {AbortSignal} [signal] - Signal cancelling the wait.
+ * @returns {Promise<void>}
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return abortable(new Promise<void>(resolve => setTimeout(resolve, ms)), signal);
+}
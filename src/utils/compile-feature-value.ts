@@ -0,0 +1,73 @@
+import type { Feature } from 'geojson';
+import type { ExpressionSpecification } from 'maplibre-gl';
+
+
+/**
+ * A value resolved for each GeoJSON feature. Can be:
+ * - a constant value,
+ * - a property accessor receiving the feature, or
+ * - a MapLibre-style expression evaluated against the feature.
+ */
+export type FeatureValue<T> = T | ((feature: Feature) => T) | ExpressionSpecification;
+
+
+let styleSpec: typeof import('@maplibre/maplibre-gl-style-spec') | undefined;
+let styleSpecPromise: Promise<void> | undefined;
+
+
+/**
+ * Loads the MapLibre style specification that evaluates expressions, when
+ * one of the values is an expression and it isn't loaded yet. It is only
+ * loaded on first use, so it stays optional for those not using expressions.
+ * @param {FeatureValue<unknown>[]} values - Values to compile.
+ * @returns {Promise<void>|null} Promise resolved once loaded, or `null` when nothing needs loading.
+ */
+export function loadFeatureExpressions(values: FeatureValue<unknown>[]): Promise<void> | null {
+  if (styleSpec || !values.some(value => Array.isArray(value))) {
+    return null;
+  }
+
+  styleSpecPromise ??= import('@maplibre/maplibre-gl-style-spec').then(module => {
+    styleSpec = module;
+  }, error => {
+    styleSpecPromise = undefined;
+    throw error;
+  });
+  return styleSpecPromise;
+}
+
+
+/**
+ * Compiles a feature value into a function that resolves it for a feature.
+ * Expressions need `loadFeatureExpressions` to have completed.
+ * @param {FeatureValue<T>|undefined} value - Constant, accessor, or expression.
+ * @returns {(feature: Feature, zoom: number) => T | undefined} Evaluator for the value.
+ * @throws {Error} When the expression cannot be parsed.
+ */
+export function compileFeatureValue<T>(value: FeatureValue<T> | undefined): (feature: Feature, zoom: number) => T | undefined {
+  if (typeof value === 'function') {
+    const accessor = value as (feature: Feature) => T;
+    return feature => accessor(feature);
+  }
+
+  // Values are never arrays themselves, so arrays are expressions.
+  if (Array.isArray(value)) {
+    if (!styleSpec) {
+      throw new Error('Expressions need `loadFeatureExpressions` to complete before being compiled');
+    }
+
+    const parsed = styleSpec.createExpression(value);
+    if (parsed.result === 'error') {
+      throw new Error(`Invalid expression ${JSON.stringify(value)}: ${parsed.value.map(error => error.message).join(', ')}`);
+    }
+
+    const expression = parsed.value;
+    return (feature, zoom) => expression.evaluate({ zoom }, {
+      type: !feature.geometry || feature.geometry.type === 'GeometryCollection' ? 'Unknown' : feature.geometry.type,
+      id: feature.id,
+      properties: feature.properties ?? {},
+    });
+  }
+
+  return () => value as T;
+}
@@ -0,0 +1,38 @@
+import type { Object3D, Mesh } from 'three';
+import { Box3, Matrix4 } from 'three';
+
+
+const tempInverseMatrix = new Matrix4();
+const tempRelativeMatrix = new Matrix4();
+const tempBox = new Box3();
+
+
+/**
+ * Computes the bounding box of an object's meshes in the object's own local
+ * space, ignoring the object's transform and its ancestors.
+ * @param {Object3D} root - Object whose descendants are measured.
+ * @param {Box3} [target] - Optional box to write the result into.
+ * @returns {Box3} Bounding box in the root's local space. Empty when it has no meshes.
+ */
+export function computeLocalBox(root: Object3D, target: Box3 = new Box3()): Box3 {
+  target.makeEmpty();
+
+  root.updateWorldMatrix(true, true);
+  tempInverseMatrix.copy(root.matrixWorld).invert();
+
+  root.traverse(child => {
+    const mesh = child as Mesh;
+    if (!mesh.isMesh || !mesh.geometry) {
+      return;
+    }
+
+    if (!mesh.geometry.boundingBox) {
+      mesh.geometry.computeBoundingBox();
+    }
+
+    tempRelativeMatrix.multiplyMatrices(tempInverseMatrix, mesh.matrixWorld);
+    target.union(tempBox.copy(mesh.geometry.boundingBox!).applyMatrix4(tempRelativeMatrix));
+  });
+
+  return target;
+}
@@ -0,0 +1,33 @@
+import type { Object3D, Mesh, InstancedMesh, Material, Texture } from 'three';
+
+
+/**
+ * Disposes the geometries, materials, and textures used by an object and its
+ * descendants, releasing their GPU memory. Resources shared with other objects
+ * are disposed as well.
+ * @param {Object3D} root - Root of the hierarchy to dispose.
+ * @returns {void}
+ */
+export function disposeObject(root: Object3D): void {
+  root.traverse(object => {
+    const mesh = object as Mesh;
+    if (!mesh.isMesh && !(object as Object3D & { isPoints?: boolean }).isPoints &&
+      !(object as Object3D & { isLine?: boolean }).isLine) {
+      return;
+    }
+
+    mesh.geometry?.dispose();
+    (mesh as InstancedMesh).isInstancedMesh && (mesh as InstancedMesh).dispose();
+
+    const materials: Material[] = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+    materials.forEach(material => {
+      if (!material) {
+        return;
+      }
+      Object.values(material).forEach(value => {
+        (value as Texture | null)?.isTexture && (value as Texture).dispose();
+      });
+      material.dispose();
+    });
+  });
+}
@@ -0,0 +1,95 @@
+import { Matrix4, Vector3 } from 'three';
+import { DEG_TO_RAD, RAD_TO_DEG, WGS84_RADIUS, WGS84_ECCENTRICITY_SQUARED } from '../configs';
+
+
+/**
+ * Geodetic coordinates on the WGS84 ellipsoid.
+ * - `lng` / `lat`: longitude and latitude in degrees.
+ * - `alt`: height above the ellipsoid in meters.
+ */
+export interface GeodeticPosition {
+  lng: number;
+  lat: number;
+  alt: number;
+}
+
+
+/**
+ * Converts geodetic coordinates on the WGS84 ellipsoid to Earth-centered,
+ * Earth-fixed (ECEF) coordinates.
+ * @param {number} lng - Longitude in degrees.
+ * @param {number} lat - Latitude in degrees.
+ * @param {number} alt - Height above the ellipsoid in meters.
+ * @param {Vector3} [target] - Optional vector to write the result into.
+ * @returns {Vector3} ECEF position in meters.
+ */
+export function lngLatAltToEcef(lng: number, lat: number, alt: number, target: Vector3 = new Vector3()): Vector3 {
+  const lngRad = lng * DEG_TO_RAD;
+  const latRad = lat * DEG_TO_RAD;
+  const sinLat = Math.sin(latRad);
+  const cosLat = Math.cos(latRad);
+  const radius = WGS84_RADIUS / Math.sqrt(1 - WGS84_ECCENTRICITY_SQUARED * sinLat * sinLat);
+
+  return target.set(
+    (radius + alt) * cosLat * Math.cos(lngRad),
+    (radius + alt) * cosLat * Math.sin(lngRad),
+    (radius * (1 - WGS84_ECCENTRICITY_SQUARED) + alt) * sinLat
+  );
+}
+
+
+/**
+ * Converts Earth-centered, Earth-fixed (ECEF) coordinates to geodetic
+ * coordinates on the WGS84 ellipsoid, iterating on the latitude.
+ * @param {Vector3} position - ECEF position in meters.
+ * @returns {GeodeticPosition}
+ */
+export function ecefToLngLatAlt(position: Vector3): GeodeticPosition {
+  const { x, y, z } = position;
+  const p = Math.hypot(x, y);
+
+  let lat = Math.atan2(z, p * (1 - WGS84_ECCENTRICITY_SQUARED));
+  for (let i = 0; i < 5; i++) {
+    const sinLat = Math.sin(lat);
+    const radius = WGS84_RADIUS / Math.sqrt(1 - WGS84_ECCENTRICITY_SQUARED * sinLat * sinLat);
+    lat = Math.atan2(z + WGS84_ECCENTRICITY_SQUARED * radius * sinLat, p);
+  }
+
+  // Stable near the poles, unlike dividing by the cosine of the latitude.
+  const sinLat = Math.sin(lat);
+  const alt = p * Math.cos(lat) + z * sinLat -
+    WGS84_RADIUS * Math.sqrt(1 - WGS84_ECCENTRICITY_SQUARED * sinLat * sinLat);
+
+  return {
+    lng: Math.atan2(y, x) * RAD_TO_DEG,
+    lat: lat * RAD_TO_DEG,
+    alt,
+  };
+}
+
+
+/**
+ * Builds the matrix from a local east-north-up frame (in meters) anchored on
+ * the WGS84 ellipsoid to Earth-centered, Earth-fixed (ECEF) coordinates.
+ * @param {number} lng - Longitude in degrees.
+ * @param {number} lat - Latitude in degrees.
+ * @param {number} alt - Height above the ellipsoid in meters.
+ * @param {Matrix4} [target] - Optional matrix to write the result into.
+ * @returns {Matrix4}
+ */
+export function eastNorthUpToEcefMatrix(lng: number, lat: number, alt: number, target: Matrix4 = new Matrix4()): Matrix4 {
+  const lngRad = lng * DEG_TO_RAD;
+  const latRad = lat * DEG_TO_RAD;
+  const sinLng = Math.sin(lngRad);
+  const cosLng = Math.cos(lngRad);
+  const sinLat = Math.sin(latRad);
+  const cosLat = Math.cos(latRad);
+  const origin = lngLatAltToEcef(lng, lat, alt);
+
+  return target.set(
+    -sinLng, -sinLat * cosLng, cosLat * cosLng, origin.x,
+    cosLng, -sinLat * sinLng, cosLat * sinLng, origin.y,
+    0, cosLat, sinLat, origin.z,
+    0, 0, 0, 1
+  );
+}
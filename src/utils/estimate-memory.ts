@@ -0,0 +1,107 @@
+import type {
+  Object3D,
+  Mesh,
+  InstancedMesh,
+  Material,
+  Texture,
+  CompressedTexture,
+  BufferGeometry,
+  BufferAttribute,
+  InterleavedBufferAttribute,
+  GLBufferAttribute,
+  DirectionalLight,
+  Scene,
+} from 'three';
+import { FloatType, HalfFloatType } from 'three';
+
+
+/**
+ * Estimated GPU memory in bytes of the geometries and textures of objects.
+ */
+export interface MemoryEstimate {
+  geometryBytes: number;
+  textureBytes: number;
+}
+
+
+/**
+ * Estimates the memory taken by the geometries and textures of objects and
+ * their descendants, including instance attributes, shadow maps, and scene
+ * environments. Shared buffers and textures are counted once. Texture sizes
+ * assume uncompressed RGBA texels unless the texture is compressed.
+ * @param {Object3D[]} roots - Roots of the hierarchies to measure.
+ * @returns {MemoryEstimate}
+ */
+export function estimateMemory(roots: Object3D[]): MemoryEstimate {
+  const buffers = new Set<ArrayBufferView>();
+  const textures = new Set<Texture>();
+
+  const addAttribute = (attribute?: BufferAttribute | InterleavedBufferAttribute | GLBufferAttribute | null) => {
+    // Attributes wrapping existing WebGL buffers have no array to measure.
+    const array = (attribute as InterleavedBufferAttribute | null)?.isInterleavedBufferAttribute
+      ? (attribute as InterleavedBufferAttribute).data.array
+      : (attribute as BufferAttribute | null)?.array;
+    array && buffers.add(array as unknown as ArrayBufferView);
+  };
+  const addTexture = (texture?: Texture | null) => {
+    texture?.isTexture && textures.add(texture);
+  };
+
+  roots.forEach(root => root.traverse(object => {
+    const scene = object as Scene;
+    if (scene.isScene) {
+      addTexture(scene.environment);
+      addTexture(scene.background as Texture | null);
+    }
+
+    addTexture((object as DirectionalLight).shadow?.map?.texture);
+
+    const instancedMesh = object as InstancedMesh;
+    if (instancedMesh.isInstancedMesh) {
+      addAttribute(instancedMesh.instanceMatrix);
+      addAttribute(instancedMesh.instanceColor);
+    }
+
+    const geometry = (object as Mesh).geometry as BufferGeometry | undefined;
+    if (geometry?.isBufferGeometry) {
+      addAttribute(geometry.index);
+      Object.values(geometry.attributes).forEach(addAttribute);
+      Object.values(geometry.morphAttributes).forEach(attributes => attributes.forEach(addAttribute));
+    }
+
+    const material = (object as Mesh).material as Material | Material[] | undefined;
+    (Array.isArray(material) ? material : [material]).forEach(item => {
+      item && Object.values(item).forEach(value => addTexture(value as Texture | null));
+    });
+  }));
+
+  let geometryBytes = 0;
+  buffers.forEach(buffer => geometryBytes += buffer.byteLength);
+
+  let textureBytes = 0;
+  textures.forEach(texture => textureBytes += getTextureBytes(texture));
+
+  return { geometryBytes, textureBytes };
+}
+
+
+/**
+ * Estimates the memory taken by a texture, with its mipmaps.
+ * @param {Texture} texture - Texture to measure.
+ * @returns {number} Size in bytes.
+ */
+function getTextureBytes(texture: Texture): number {
+  if ((texture as CompressedTexture).isCompressedTexture) {
+    return (texture.mipmaps as { data: ArrayBufferView }[])
+      .reduce((bytes, mipmap) => bytes + (mipmap.data?.byteLength ?? 0), 0);
+  }
+
+  const bytesPerTexel = texture.type === FloatType ? 16 : texture.type === HalfFloatType ? 8 : 4;
+  const images: ({ width?: number; height?: number } | null)[] = Array.isArray(texture.image)
+    ? texture.image
+    : [texture.image];
+  const texels = images.reduce((count, image) => count + (image?.width ?? 0) * (image?.height ?? 0), 0);
+
+  // A full mipmap chain adds a third to the base level.
+  return texels * bytesPerTexel * (texture.generateMipmaps ? 4 / 3 : 1);
+}
@@ -3,3 +3,13 @@ export * from './lng-lat-to-vectore3';
 export * from './make-perspective-matrix';
 export * from './projected-units-per-meter';
 export * from './mercator';
+export * from './lng-lat-to-globe-matrix';
+export * from './lng-lat-to-mercator-matrix';
+export * from './compile-feature-value';
+export * from './compute-local-box';
+export * from './polygon';
+export * from './sun-position';
+export * from './dispose-object';
+export * from './abortable';
+export * from './estimate-memory';
+export * from './ecef';
@@ -0,0 +1,25 @@
+import { Matrix4 } from 'three';
+import { DEG_TO_RAD, EARTH_RADIUS } from '../configs';
+
+
+const tempRotationMatrix = new Matrix4();
+
+
+/**
+ * Builds a model matrix placing a local east-north-up frame (in meters) on
+ * MapLibre's unit-sphere globe at the given geographic coordinates.
+ * @param {number} lng - Longitude in degrees.
+ * @param {number} lat - Latitude in degrees.
+ * @param {number} alt - Altitude in meters.
+ * @param {Matrix4} [target] - Optional matrix to write the result into.
+ * @returns {Matrix4} Model matrix in globe space.
+ */
+export function lngLatToGlobeMatrix(lng: number, lat: number, alt: number, target: Matrix4 = new Matrix4()): Matrix4 {
+  const scale = 1 / EARTH_RADIUS;
+
+  return target
+    .makeScale(scale, scale, scale)
+    .premultiply(tempRotationMatrix.makeTranslation(0, 0, 1 + (alt || 0) / EARTH_RADIUS))
+    .premultiply(tempRotationMatrix.makeRotationX(-lat * DEG_TO_RAD))
+    .premultiply(tempRotationMatrix.makeRotationY(lng * DEG_TO_RAD));
+}
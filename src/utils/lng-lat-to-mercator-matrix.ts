@@ -0,0 +1,27 @@
+import { Matrix4 } from 'three';
+import { WORLD_SIZE } from '../configs';
+import { mercatorXFromLng, mercatorYFromLat } from './mercator';
+import { projectedUnitsPerMeter } from './projected-units-per-meter';
+
+
+/**
+ * Builds a model matrix placing a local east-north-up frame (in meters) in
+ * MapLibre's normalized Mercator space, where the world spans [0, 1].
+ * @param {number} lng - Longitude in degrees.
+ * @param {number} lat - Latitude in degrees.
+ * @param {number} alt - Altitude in meters.
+ * @param {Matrix4} [target] - Optional matrix to write the result into.
+ * @returns {Matrix4} Model matrix in normalized Mercator space.
+ */
+export function lngLatToMercatorMatrix(lng: number, lat: number, alt: number, target: Matrix4 = new Matrix4()): Matrix4 {
+  const scale = projectedUnitsPerMeter(lat) / WORLD_SIZE;
+
+  target.makeScale(scale, -scale, scale);
+  target.setPosition(
+    mercatorXFromLng(lng),
+    mercatorYFromLat(lat),
+    (alt || 0) * scale
+  );
+
+  return target;
+}
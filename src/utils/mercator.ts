@@ -21,3 +21,24 @@ export function mercatorYFromLat(lat: number): number {
     Math.log(Math.tan(Math.PI / 4 + (lat * Math.PI) / 360))
   ) / 360);
 }
+
+
+/**
+ * Converts a normalized Web Mercator X coordinate to longitude.
+ * @param {number} x - X coordinate in [0, 1] range.
+ * @returns {number} Longitude in degrees.
+ */
+export function lngFromMercatorX(x: number): number {
+  return x * 360 - 180;
+}
+
+
+/**
+ * Converts a normalized Web Mercator Y coordinate to latitude.
+ * @param {number} y - Y coordinate in [0, 1] range.
+ * @returns {number} Latitude in degrees.
+ */
+export function latFromMercatorY(y: number): number {
+  const y2 = 180 - y * 360;
+  return (360 / Math.PI) * Math.atan(Math.exp((y2 * Math.PI) / 180)) - 90;
+}
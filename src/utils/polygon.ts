@@ -0,0 +1,110 @@
+/**
+ * A 2D point as an `[x, y]` tuple.
+ */
+export type Point2 = [number, number];
+
+
+/**
+ * Computes the convex hull of a set of points with the monotone chain algorithm.
+ * @param {Point2[]} points - Points in any order.
+ * @returns {Point2[]} Hull vertices in counter-clockwise order.
+ */
+export function convexHull(points: Point2[]): Point2[] {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  if (sorted.length < 3) {
+    return sorted;
+  }
+
+  const cross = (o: Point2, a: Point2, b: Point2) =>
+    (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+  const lower: Point2[] = [];
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) {
+      lower.pop();
+    }
+    lower.push(point);
+  }
+
+  const upper: Point2[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const point = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) {
+      upper.pop();
+    }
+    upper.push(point);
+  }
+
+  lower.pop();
+  upper.pop();
+  return lower.concat(upper);
+}
+
+
+/**
+ * Checks whether a point lies inside a polygon ring, using the even-odd rule.
+ * @param {Point2} point - Point to test.
+ * @param {Point2[]} ring - Polygon vertices. The ring may or may not be closed.
+ * @returns {boolean}
+ */
+export function pointInPolygon([x, y]: Point2, ring: Point2[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+
+/**
+ * Checks whether the edges of two polygon rings cross each other.
+ * @param {Point2[]} a - First ring.
+ * @param {Point2[]} b - Second ring.
+ * @returns {boolean}
+ */
+export function polygonEdgesIntersect(a: Point2[], b: Point2[]): boolean {
+  const orientation = (p: Point2, q: Point2, r: Point2) =>
+    Math.sign((q[0] - p[0]) * (r[1] - p[1]) - (q[1] - p[1]) * (r[0] - p[0]));
+
+  for (let i = 0, j = a.length - 1; i < a.length; j = i++) {
+    for (let k = 0, l = b.length - 1; k < b.length; l = k++) {
+      if (
+        orientation(a[j], a[i], b[l]) !== orientation(a[j], a[i], b[k]) &&
+        orientation(b[l], b[k], a[j]) !== orientation(b[l], b[k], a[i])
+      ) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+
+/**
+ * Checks whether two polygon rings overlap, including when one contains the other.
+ * @param {Point2[]} a - First ring.
+ * @param {Point2[]} b - Second ring.
+ * @returns {boolean}
+ */
+export function polygonsIntersect(a: Point2[], b: Point2[]): boolean {
+  if (!a.length || !b.length) {
+    return false;
+  }
+
+  return pointInPolygon(a[0], b) || pointInPolygon(b[0], a) || polygonEdgesIntersect(a, b);
+}
+
+
+/**
+ * Checks whether a polygon ring lies entirely inside another.
+ * @param {Point2[]} inner - Ring that should be contained.
+ * @param {Point2[]} outer - Containing ring.
+ * @returns {boolean}
+ */
+export function polygonContains(outer: Point2[], inner: Point2[]): boolean {
+  return inner.every(point => pointInPolygon(point, outer)) && !polygonEdgesIntersect(inner, outer);
+}
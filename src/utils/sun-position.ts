@@ -0,0 +1,63 @@
+import { DEG_TO_RAD, RAD_TO_DEG } from '../configs';
+
+
+/**
+ * Position of the sun in the sky.
+ * - `azimuth`: compass direction in degrees clockwise from north.
+ * - `altitude`: elevation above the horizon in degrees, negative below it.
+ */
+export interface SunPosition {
+  azimuth: number;
+  altitude: number;
+}
+
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const OBLIQUITY = 23.4397 * DEG_TO_RAD;
+
+
+/**
+ * Computes the position of the sun for a moment and place on Earth, using the
+ * low-precision solar coordinates of the Astronomical Almanac, accurate to a
+ * fraction of a degree and without atmospheric refraction.
+ * @param {Date} date - Moment to compute the position for.
+ * @param {number} lng - Longitude of the observer in degrees.
+ * @param {number} lat - Latitude of the observer in degrees.
+ * @returns {SunPosition}
+ */
+export function getSunPosition(date: Date, lng: number, lat: number): SunPosition {
+  const days = date.valueOf() / DAY_MS - 0.5 + J1970 - J2000;
+
+  // Ecliptic longitude from the mean anomaly and the equation of center.
+  const meanAnomaly = (357.5291 + 0.98560028 * days) * DEG_TO_RAD;
+  const center = (
+    1.9148 * Math.sin(meanAnomaly) +
+    0.02 * Math.sin(2 * meanAnomaly) +
+    0.0003 * Math.sin(3 * meanAnomaly)
+  ) * DEG_TO_RAD;
+  const eclipticLng = meanAnomaly + center + 102.9372 * DEG_TO_RAD + Math.PI;
+
+  const declination = Math.asin(Math.sin(OBLIQUITY) * Math.sin(eclipticLng));
+  const rightAscension = Math.atan2(Math.sin(eclipticLng) * Math.cos(OBLIQUITY), Math.cos(eclipticLng));
+
+  const siderealTime = (280.16 + 360.9856235 * days + lng) * DEG_TO_RAD;
+  const hourAngle = siderealTime - rightAscension;
+  const phi = lat * DEG_TO_RAD;
+
+  const altitude = Math.asin(
+    Math.sin(phi) * Math.sin(declination) +
+    Math.cos(phi) * Math.cos(declination) * Math.cos(hourAngle)
+  );
+  // Measured from south towards west, turned to a compass bearing.
+  const azimuth = Math.atan2(
+    Math.sin(hourAngle),
+    Math.cos(hourAngle) * Math.sin(phi) - Math.tan(declination) * Math.cos(phi)
+  ) + Math.PI;
+
+  return {
+    azimuth: (azimuth * RAD_TO_DEG) % 360,
+    altitude: altitude * RAD_TO_DEG,
+  };
+}
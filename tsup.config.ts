@@ -24,6 +24,10 @@ export default defineConfig([
     minify: true,
     clean: false, // Avoid to cover esm
     globalName: 'ThreeWorld',
+    esbuildOptions(options) {
+      // Optional, loaded on first use of expressions.
+      options.external = ['@maplibre/maplibre-gl-style-spec'];
+    },
     ...sameConfig,
   },
 ]);